@@ -4,8 +4,8 @@
  * Run with: npx tsx scripts/benchmark.ts
  */
 
-import { HeadlessGame } from "../src/headless-entry";
-import type { ShotRelease } from "../src/headless-entry";
+import { HeadlessGame, compareIntegrators } from "../src/headless-entry";
+import type { ShotRelease, IntegratorSettings } from "../src/headless-entry";
 
 // Generate a random shot release
 function randomShot(): ShotRelease {
@@ -104,6 +104,36 @@ async function benchmark() {
   console.log(`  Avg time/end: ${formatTime(batchTime / batchSize)}`);
   console.log(`  Throughput: ${formatNumber(endsPerSecond)} ends/sec\n`);
 
+  // Integrator speed vs accuracy
+  console.log("📊 Integrator Comparison (error vs fine adaptive reference):");
+  const integrators: Array<Partial<IntegratorSettings>> = [
+    { kind: "euler", dt: 1 / 120 },
+    { kind: "euler", dt: 1 / 60 },
+    { kind: "rk4", dt: 1 / 120 },
+    { kind: "rk4", dt: 1 / 30 },
+    { kind: "rk4", dt: 1 / 120, fastPath: true },
+    { kind: "adaptive", dt: 1 / 120, tolerance: 1e-5 },
+    { kind: "adaptive", dt: 1 / 30, tolerance: 1e-4 },
+  ];
+  const draw: ShotRelease = { x: 0, z: 0, speed: 2.25, angle: -0.075, omega: 0.8 };
+  const hit: ShotRelease = { x: 0, z: 0, speed: 3.2, angle: 0.01, omega: 0.8 };
+  const scenarios = [
+    { name: "Draw", results: compareIntegrators(draw, integrators) },
+    { name: "Hit and roll", results: compareIntegrators(hit, integrators, { setup: (game) => game.throwAndSettle(draw) }) },
+  ];
+  for (const { name, results } of scenarios) {
+    console.log(`  ${name}:`);
+    for (const r of results) {
+      const fast = r.settings.fastPath ? " +fast" : "";
+      const label = `${r.settings.kind} @ 1/${Math.round(1 / r.settings.dt)}s${fast}`.padEnd(24);
+      console.log(
+        `    ${label} steps ${String(r.steps).padStart(5)}  time ${formatTime(r.timeMs).padStart(8)}  ` +
+          `max error ${(r.maxError * 1000).toFixed(3)}mm`
+      );
+    }
+  }
+  console.log();
+
   // Summary
   console.log("✨ Summary:");
   console.log(`  Single shot: ~${formatTime(shotTime)}`);
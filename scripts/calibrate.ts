@@ -0,0 +1,173 @@
+/**
+ * Fits the empirical ice model's parameters to measured deliveries.
+ *
+ * Reads observations from a JSON file:
+ *   { "observations": [...], "initial": { ...IceParams }, "fit": ["mu0", ...] }
+ * where each observation is a split time, draw distance, lateral curl or
+ * tracked trajectory of a delivery (see CalibrationObservation), and prints the
+ * fitted parameters with their uncertainties, every residual and the goodness
+ * of fit. Without a file it fits synthetic, noisy observations made with known
+ * parameters and shows how well they are recovered.
+ *
+ * Run with: npx tsx scripts/calibrate.ts [observations.json]
+ */
+
+import { readFileSync } from "node:fs";
+import { calibrateIceParams, predictObservation, DEFAULT_ICE_PARAMS } from "../src/headless-entry";
+import type {
+  CalibrationObservation,
+  CalibrationOptions,
+  CalibrationResult,
+  FittedParam,
+  IceParams,
+  ShotRelease,
+  SweepPlan,
+} from "../src/headless-entry";
+import { createRng, gaussian } from "../src/utils/random";
+
+interface CalibrationFile {
+  observations: CalibrationObservation[];
+  initial?: Partial<IceParams>;
+  fit?: FittedParam[];
+}
+
+/** Ice the synthetic observations are made on: a little slower and straighter than the defaults */
+const SYNTHETIC_TRUTH: IceParams = {
+  ...DEFAULT_ICE_PARAMS,
+  mu0: 0.0086,
+  curlCoeff: 0.024,
+  kSpin: 0.0001,
+  sweepMuFactor: 0.72,
+  sweepCurlFactor: 0.5,
+};
+
+/** Measurement noise of the synthetic observations */
+const SYNTHETIC_SIGMA = { split: 0.02, draw: 0.05, curl: 0.02, trajectory: 0.03 };
+
+/** Sweep hard from a line until the stone stops */
+const sweepFrom = (line: "NEAR_HOG" | "FAR_HOG"): SweepPlan => ({ segments: [{ from: { line } }] });
+
+/** A session of timed, measured and tracked deliveries, as a rink might record them. */
+function syntheticObservations(): CalibrationObservation[] {
+  const rng = createRng(25);
+  const draws: Array<{ release: ShotRelease; sweep?: SweepPlan }> = [
+    { release: { x: 0, z: 0, speed: 2.28, angle: -0.07, omega: 0.8 } },
+    { release: { x: 0, z: 0, speed: 2.33, angle: 0.07, omega: -0.8 } },
+    { release: { x: -0.3, z: 0, speed: 2.34, angle: -0.05, omega: 0.4 } },
+    { release: { x: 0, z: 0, speed: 2.15, angle: -0.06, omega: 1.2 }, sweep: sweepFrom("NEAR_HOG") },
+    { release: { x: 0, z: 0, speed: 2.25, angle: 0.06, omega: -0.6 }, sweep: sweepFrom("FAR_HOG") },
+  ];
+
+  const observations: CalibrationObservation[] = [];
+  for (const { release, sweep } of draws) {
+    const base = { release, sweep };
+    observations.push(
+      { ...base, kind: "split", from: "NEAR_TEE", to: "NEAR_HOG", time: 0, sigma: SYNTHETIC_SIGMA.split },
+      { ...base, kind: "split", from: "NEAR_HOG", to: "FAR_HOG", time: 0, sigma: SYNTHETIC_SIGMA.split },
+      { ...base, kind: "draw", distance: 0, sigma: SYNTHETIC_SIGMA.draw },
+      { ...base, kind: "curl", lateral: 0, sigma: SYNTHETIC_SIGMA.curl }
+    );
+  }
+  const tracked: CalibrationObservation = {
+    release: draws[0].release,
+    kind: "trajectory",
+    points: [4, 8, 12, 16, 20].map((time) => ({ time, x: 0, z: 0 })),
+    sigma: SYNTHETIC_SIGMA.trajectory,
+  };
+  observations.push(tracked);
+
+  // Measure what the true ice does, with noise
+  return observations.map((obs) => {
+    const values = predictObservation(SYNTHETIC_TRUTH, obs).map((v) => v + obs.sigma! * gaussian(rng));
+    switch (obs.kind) {
+      case "split":
+        return { ...obs, time: values[0] };
+      case "draw":
+        return { ...obs, distance: values[0] };
+      case "curl":
+        return { ...obs, lateral: values[0] };
+      case "trajectory":
+        return { ...obs, points: obs.points.map((p, k) => ({ time: p.time, x: values[2 * k], z: values[2 * k + 1] })) };
+    }
+  });
+}
+
+function describe(obs: CalibrationObservation): string {
+  const swept = obs.sweep ? ", swept" : "";
+  const shot = `${obs.release.speed.toFixed(2)} m/s, ${obs.release.omega > 0 ? "+" : ""}${obs.release.omega} rad/s${swept}`;
+  switch (obs.kind) {
+    case "split":
+      return `split ${obs.from}→${obs.to} (${shot})`;
+    case "trajectory":
+      return `trajectory, ${obs.points.length} points (${shot})`;
+    default:
+      return `${obs.kind} (${shot})`;
+  }
+}
+
+function report(observations: CalibrationObservation[], result: CalibrationResult, truth?: IceParams): void {
+  console.log("\nParameters");
+  console.log(`  ${"".padEnd(16)}${"initial".padStart(11)}${"fitted".padStart(11)}${"± 1σ".padStart(11)}${truth ? "true".padStart(11) : ""}`);
+  for (const name of Object.keys(result.params) as FittedParam[]) {
+    const se = result.standardErrors[name];
+    const note = result.unconstrained.includes(name)
+      ? "  (not constrained by the data)"
+      : result.atBound.includes(name)
+        ? "  (at its calibration bound)"
+        : "";
+    console.log(
+      `  ${name.padEnd(16)}${fmt(result.initial[name])}${fmt(result.params[name])}` +
+        `${se === undefined ? "".padStart(11) : fmt(se)}${truth ? fmt(truth[name]) : ""}${note}`
+    );
+  }
+
+  console.log("\nResiduals (predicted − observed)");
+  for (const res of result.residuals) {
+    const unit = res.kind === "split" ? "s" : "m";
+    const detail =
+      res.observed.length === 1
+        ? `${res.observed[0].toFixed(3)} → ${res.predicted[0].toFixed(3)}, `
+        : "";
+    console.log(`  ${describe(observations[res.index]).padEnd(52)} ${detail}rms ${res.rms.toFixed(3)} ${unit}`);
+  }
+
+  console.log("\nGoodness of fit");
+  console.log(`  χ² ${result.chiSquare.toFixed(2)} on ${result.degreesOfFreedom} degrees of freedom`);
+  console.log(`  reduced χ² ${result.reducedChiSquare.toFixed(2)} (about 1 = fits to within the measurement error)`);
+  for (const [kind, rms] of Object.entries(result.rmsByKind)) {
+    console.log(`  rms ${kind.padEnd(11)} ${rms.toFixed(3)} ${kind === "split" ? "s" : "m"}`);
+  }
+  console.log(
+    `  ${result.converged ? "converged" : "stopped before converging"} after ${result.iterations} iterations, ` +
+      `${result.evaluations} simulated deliveries`
+  );
+}
+
+function fmt(v: number): string {
+  return (Math.abs(v) < 0.001 ? v.toExponential(2) : v.toFixed(4)).padStart(11);
+}
+
+const file = process.argv[2];
+let observations: CalibrationObservation[];
+let options: CalibrationOptions = {};
+let truth: IceParams | undefined;
+
+if (file) {
+  const data = JSON.parse(readFileSync(file, "utf8")) as CalibrationFile;
+  observations = data.observations;
+  options = { initial: data.initial, fit: data.fit };
+  console.log(`Fitting ${observations.length} observations from ${file}`);
+} else {
+  observations = syntheticObservations();
+  truth = SYNTHETIC_TRUTH;
+  console.log(`Fitting ${observations.length} synthetic observations, starting from DEFAULT_ICE_PARAMS`);
+}
+
+const start = performance.now();
+const result = calibrateIceParams(observations, {
+  ...options,
+  onIteration: (i, _params, chiSquare) => console.log(`  iteration ${i}: χ² ${chiSquare.toFixed(2)}`),
+});
+report(observations, result, truth);
+console.log(`\n${((performance.now() - start) / 1000).toFixed(1)}s`);
+process.exit(result.converged ? 0 : 1);
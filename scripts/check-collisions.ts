@@ -0,0 +1,183 @@
+/**
+ * Checks the collision models against conservation bounds.
+ *
+ * Plays head-on, cut and double takeouts through resolveCollisions with the
+ * stones sliding freely (no ice forces), under each collision model, and checks
+ * that linear momentum is conserved, that the collision never adds kinetic
+ * energy (translation and spin) and never takes more than a perfectly plastic
+ * impact would. Also checks the restitution, the throw off the line of centres
+ * and the contact duration each model reports. Exits non-zero on any failure.
+ *
+ * Run with: npx tsx scripts/check-collisions.ts
+ */
+
+import {
+  ThrowCollisionModel,
+  COLLISION_RESTITUTION,
+  createCollisionModel,
+  resolveCollisions,
+  stoneMass,
+  stoneRadius,
+} from "../src/headless-entry";
+import type { CollisionModel, CollisionModelSpec, StepEvents, StoneState } from "../src/headless-entry";
+import { STONE_RADIUS as R } from "../src/utils/constants";
+
+const MODELS: CollisionModelSpec[] = [{ kind: "impulse" }, { kind: "throw" }];
+
+/** Free-sliding time the scenarios are played over (s); long enough for every impact */
+const SPAN = 1.0;
+const MOMENTUM_TOLERANCE = 1e-9; // N·s
+const ENERGY_TOLERANCE = 1e-9; // J
+/** Accepted throw of a spinning head-on hit off the line of centres (degrees) */
+const THROW_RANGE = [0.1, 6];
+
+function stone(x: number, z: number, vx = 0, vz = 0, omega = 0, index = 0): StoneState {
+  return { pos: { x, z }, vel: { x: vx, z: vz }, omega, angle: 0, team: "red", inPlay: true, deliveryIndex: index };
+}
+
+function momentum(stones: StoneState[]): { x: number; z: number } {
+  let x = 0;
+  let z = 0;
+  for (const s of stones) {
+    x += stoneMass(s) * s.vel.x;
+    z += stoneMass(s) * s.vel.z;
+  }
+  return { x, z };
+}
+
+/** Kinetic energy of translation and spin (solid disks). */
+function energy(stones: StoneState[]): number {
+  let e = 0;
+  for (const s of stones) {
+    const m = stoneMass(s);
+    const r = stoneRadius(s);
+    e += 0.5 * m * (s.vel.x * s.vel.x + s.vel.z * s.vel.z) + 0.25 * m * r * r * s.omega * s.omega;
+  }
+  return e;
+}
+
+/** Kinetic energy left if every stone ended up moving together: the most a collision can take. */
+function plasticEnergy(stones: StoneState[]): number {
+  const p = momentum(stones);
+  const m = stones.reduce((sum, s) => sum + stoneMass(s), 0);
+  return (p.x * p.x + p.z * p.z) / (2 * m);
+}
+
+/** Slide the stones freely for SPAN from where they are, resolving every impact on the way. */
+function play(stones: StoneState[], model: CollisionModel): StepEvents {
+  const start = stones.map((s) => ({ x: s.pos.x, z: s.pos.z }));
+  for (const s of stones) {
+    s.pos.x += s.vel.x * SPAN;
+    s.pos.z += s.vel.z * SPAN;
+  }
+  return resolveCollisions(stones, { start, dt: SPAN }, model);
+}
+
+interface Scenario {
+  name: string;
+  stones: () => StoneState[];
+  /** Stones that must be moving afterwards */
+  struck: number[];
+}
+
+/** Where the shooter's centre is when it first touches a stone `offset` to the side of its path. */
+function contactNormal(offset: number): { x: number; z: number } {
+  const along = Math.sqrt(4 * R * R - offset * offset);
+  return { x: offset / (2 * R), z: along / (2 * R) };
+}
+
+const SCENARIOS: Scenario[] = [
+  { name: "head-on", stones: () => [stone(0, 0, 0, 2.5), stone(0, 1.2, 0, 0, 0, 1)], struck: [1] },
+  { name: "head-on, in-turn", stones: () => [stone(0, 0, 0, 2.5, 1.5), stone(0, 1.2, 0, 0, 0, 1)], struck: [1] },
+  { name: "hard cut", stones: () => [stone(0, 0, 0, 3.5, -1), stone(0.15, 1.2, 0, 0, 0, 1)], struck: [1] },
+  { name: "thin cut", stones: () => [stone(0, 0, 0, 2, 1), stone(0.26, 1.0, 0, 0, 0, 1)], struck: [1] },
+  {
+    name: "double",
+    stones: () => {
+      // The struck stone is driven straight on into a second one
+      const n = contactNormal(0.1);
+      return [
+        stone(0, 0, 0, 3.2, 1),
+        stone(0.1, 0.8, 0, 0, 0, 1),
+        stone(0.1 + n.x * (2 * R + 0.4), 0.8 + n.z * (2 * R + 0.4), 0, 0, 0, 2),
+      ];
+    },
+    struck: [1, 2],
+  },
+  {
+    name: "double off a frozen pair",
+    stones: () => [stone(0, 0, 0, 3, -0.8), stone(0.02, 1.0, 0, 0, 0, 1), stone(0.02, 1.0 + 2 * R, 0, 0, 0, 2)],
+    struck: [2],
+  },
+];
+
+function check(): boolean {
+  let ok = true;
+  const fail = (message: string) => {
+    ok = false;
+    console.log(`  ✗ ${message}`);
+  };
+
+  for (const spec of MODELS) {
+    const model = createCollisionModel(spec);
+    console.log(`${spec.kind} model`);
+
+    for (const scenario of SCENARIOS) {
+      const stones = scenario.stones();
+      const p0 = momentum(stones);
+      const e0 = energy(stones);
+      const floor = plasticEnergy(stones);
+      const events = play(stones, model);
+      const p1 = momentum(stones);
+      const e1 = energy(stones);
+
+      const dp = Math.hypot(p1.x - p0.x, p1.z - p0.z);
+      const longest = Math.max(0, ...events.contacts.map((c) => c.duration));
+      console.log(
+        `  ${scenario.name.padEnd(26)} ${events.contacts.length} impacts, energy kept ${((e1 / e0) * 100).toFixed(1)}%` +
+          `, contact ${(longest * 1000).toFixed(2)}ms`
+      );
+
+      if (dp > MOMENTUM_TOLERANCE) fail(`${scenario.name}: momentum changed by ${dp.toExponential(2)} N·s`);
+      if (e1 > e0 + ENERGY_TOLERANCE) fail(`${scenario.name}: energy rose by ${(e1 - e0).toExponential(2)} J`);
+      if (e1 < floor - ENERGY_TOLERANCE) fail(`${scenario.name}: energy fell below a plastic impact's`);
+      for (const i of scenario.struck) {
+        if (Math.hypot(stones[i].vel.x, stones[i].vel.z) < 0.1) fail(`${scenario.name}: stone ${i} was not struck`);
+      }
+      if (events.contacts.length === 0) fail(`${scenario.name}: no impact found`);
+      for (const c of events.contacts) {
+        if (spec.kind === "impulse" && c.duration !== 0) fail(`${scenario.name}: impulse contact has a duration`);
+        if (spec.kind === "throw" && !(c.duration > 0 && c.duration < 0.005)) {
+          fail(`${scenario.name}: contact duration ${c.duration}s`);
+        }
+      }
+    }
+
+    // Restitution: a spinless head-on hit separates at e × the closing speed
+    for (const speed of [0.5, 1.5, 3]) {
+      const stones = [stone(0, 0, 0, speed), stone(0, 2 * R + 0.1, 0, 0, 0, 1)];
+      play(stones, model);
+      const e = (stones[1].vel.z - stones[0].vel.z) / speed;
+      const expected = model instanceof ThrowCollisionModel ? model.restitution(speed) : COLLISION_RESTITUTION;
+      console.log(`  restitution at ${speed.toFixed(1)} m/s: ${e.toFixed(3)}`);
+      if (Math.abs(e - expected) > 1e-9) fail(`restitution at ${speed} m/s is ${e}, expected ${expected}`);
+    }
+
+    // Throw: a spinning head-on hit sends the struck stone a few degrees off the line of centres, to the side of the spin
+    const throws = [1.5, -1.5].map((omega) => {
+      const stones = [stone(0, 0, 0, 2.5, omega), stone(0, 1.2, 0, 0, 0, 1)];
+      play(stones, model);
+      return (Math.atan2(stones[1].vel.x, stones[1].vel.z) * 180) / Math.PI;
+    });
+    console.log(`  throw at ±1.5 rad/s: ${throws.map((t) => t.toFixed(2) + "°").join(", ")}`);
+    for (const t of throws) {
+      if (Math.abs(t) < THROW_RANGE[0] || Math.abs(t) > THROW_RANGE[1]) fail(`throw of ${t.toFixed(2)}° out of range`);
+    }
+    if (Math.sign(throws[0]) === Math.sign(throws[1])) fail("throw does not change side with the spin");
+  }
+  return ok;
+}
+
+const passed = check();
+console.log(passed ? "\n✓ Collisions within bounds" : "\n✗ Collisions out of bounds");
+process.exit(passed ? 0 : 1);
@@ -0,0 +1,108 @@
+/**
+ * Checks that the lone-stone fast path matches fixed stepping.
+ *
+ * Throws seeded random deliveries onto an empty sheet and onto boards with
+ * stones already in play, on level ice and on a sloped sheet whose fall pulls
+ * the stones sideways, once with fixed steps and once with the fast path,
+ * and compares where every stone ends up. Exits non-zero if any stone lands
+ * further apart than the tolerance for its integrator.
+ *
+ * Run with: npx tsx scripts/check-fast-path.ts
+ */
+
+import { HeadlessGame } from "../src/headless-entry";
+import { IceMap } from "../src/headless-entry";
+import type { BoardState, IceMapPreset, IntegratorKind, ShotRelease } from "../src/headless-entry";
+import { createRng } from "../src/utils/random";
+
+/**
+ * Largest allowed final-position difference (m). The fast path integrates long
+ * stretches with RK4, so against Euler it differs by Euler's own step error.
+ */
+const TOLERANCE: Record<IntegratorKind, number> = {
+  euler: 0.01,
+  rk4: 0.001,
+  adaptive: 0.001,
+};
+
+const SHOTS_PER_BOARD = 30;
+const STONES_IN_PLAY = [0, 3, 6];
+/** Ice the boards are played on: level, then falling toward +X */
+const ICE_MAPS: Array<IceMapPreset | null> = [null, "sloped"];
+
+function randomShot(rng: () => number): ShotRelease {
+  return {
+    x: (rng() - 0.5) * 0.4,
+    z: 0,
+    speed: 2.0 + rng() * 1.2, // guards and draws to takeouts
+    angle: (rng() - 0.5) * 0.12,
+    omega: (rng() < 0.5 ? -1 : 1) * (0.2 + rng() * 1.5),
+  };
+}
+
+/** Largest distance between the same stone on two boards; Infinity if one is in play and the other not. */
+function maxDifference(a: BoardState, b: BoardState): number {
+  let max = 0;
+  for (let i = 0; i < a.stones.length; i++) {
+    const sa = a.stones[i];
+    const sb = b.stones[i];
+    if (sa.inPlay !== sb.inPlay) return Infinity;
+    if (sa.inPlay) max = Math.max(max, Math.hypot(sa.pos.x - sb.pos.x, sa.pos.z - sb.pos.z));
+  }
+  return max;
+}
+
+function check(): boolean {
+  let ok = true;
+  for (const kind of ["euler", "rk4", "adaptive"] as IntegratorKind[]) {
+    const rng = createRng(2024);
+    let worst = 0;
+    let fixedSteps = 0;
+    let fastTime = 0;
+    let fixedTime = 0;
+
+    for (const preset of ICE_MAPS) {
+      for (const inPlay of STONES_IN_PLAY) {
+        for (let i = 0; i < SHOTS_PER_BOARD; i++) {
+          // Build the board with fixed steps so both runs start from the same stones
+          const board = new HeadlessGame();
+          board.setIntegrator({ kind, fastPath: false });
+          if (preset) board.setIceMap(IceMap.fromPreset(preset));
+          for (let k = 0; k < inPlay; k++) board.throwAndSettle(randomShot(rng));
+          const shot = randomShot(rng);
+
+          const fixed = board.clone();
+          let start = performance.now();
+          const fixedResult = fixed.throwAndSettle(shot);
+          fixedTime += performance.now() - start;
+
+          const fast = board.clone();
+          fast.setIntegrator({ fastPath: true });
+          start = performance.now();
+          const fastResult = fast.throwAndSettle(shot);
+          fastTime += performance.now() - start;
+
+          const diff = maxDifference(fixedResult.finalState, fastResult.finalState);
+          fixedSteps += fixedResult.steps;
+          worst = Math.max(worst, diff);
+          if (diff > TOLERANCE[kind]) {
+            ok = false;
+            const ice = preset ?? "level";
+            console.log(`  ✗ ${kind}, ${ice}, ${inPlay} in play: ${JSON.stringify(shot)} differs by ${(diff * 1000).toFixed(2)}mm`);
+          }
+        }
+      }
+    }
+
+    const shots = SHOTS_PER_BOARD * STONES_IN_PLAY.length * ICE_MAPS.length;
+    console.log(
+      `${kind.padEnd(9)} ${shots} shots, ${fixedSteps} steps: worst ${(worst * 1000).toFixed(3)}mm ` +
+        `(tolerance ${TOLERANCE[kind] * 1000}mm), ${(fixedTime / fastTime).toFixed(1)}× faster`
+    );
+  }
+  return ok;
+}
+
+const passed = check();
+console.log(passed ? "\n✓ Fast path matches fixed stepping" : "\n✗ Fast path out of tolerance");
+process.exit(passed ? 0 : 1);
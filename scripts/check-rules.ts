@@ -0,0 +1,194 @@
+/**
+ * Checks the delivery rules PhysicsWorld applies once a delivery comes to rest.
+ *
+ * Sets up stones on a headless world, starts the delivered stone just short of
+ * the stone it is meant to hit and settles the delivery, then checks which
+ * stones were restored or removed: a free guard zone takeout is undone, a guard
+ * ticked off the centre line is put back under the no-tick rule, a tick-free
+ * delivery stands, a stone short of the hog line is removed unless it
+ * struck a stone in play, and a stone driven back into the end board behind
+ * the hack is removed for it. Exits non-zero on any failure.
+ *
+ * Run with: npx tsx scripts/check-rules.ts
+ */
+
+import { PhysicsWorld } from "../src/headless-entry";
+import type { BoardSettings, RemovalReason, RuleOptions, StoneState, Vec2 } from "../src/headless-entry";
+import { BACK_LINE_Z, HOG_Z, TEE_Z, STONE_RADIUS as R } from "../src/utils/constants";
+
+/** A guard in the free guard zone, 3 m in front of the far tee line */
+const GUARD_Z = -TEE_Z + 3;
+/** A centre guard just touching the centre line, which a tick moves off it */
+const CENTRE_GUARD_X = 0.12;
+/** Stones count as restored when back within this distance of where they were (m) */
+const POSITION_TOLERANCE = 1e-9;
+
+interface Scenario {
+  name: string;
+  rules: Partial<RuleOptions>;
+  /** Board settings, if not the defaults */
+  boards?: Partial<BoardSettings>;
+  /** Yellow stones already in play, delivered first */
+  placed: Vec2[];
+  /** Delivery index of the red stone thrown */
+  deliveryIndex: number;
+  /** Where the delivered stone starts, and its velocity */
+  from: Vec2;
+  vel: Vec2;
+  /** Removal the delivery must end in, or null for none */
+  removal: RemovalReason | null;
+  /** Placed stones that must be back where they started */
+  restored: boolean;
+  /** Placed stones that must still be in play */
+  placedInPlay: boolean;
+}
+
+const SCENARIOS: Scenario[] = [
+  {
+    name: "FGZ takeout of a guard",
+    rules: { freeGuardZoneRocks: 5 },
+    placed: [{ x: 0, z: GUARD_Z }],
+    deliveryIndex: 1,
+    from: { x: 0, z: GUARD_Z + 1 },
+    vel: { x: 0, z: -3 },
+    removal: "FREE_GUARD_ZONE",
+    restored: true,
+    placedInPlay: true,
+  },
+  {
+    name: "takeout after the FGZ rocks",
+    rules: { freeGuardZoneRocks: 5 },
+    placed: [{ x: 0, z: GUARD_Z }],
+    deliveryIndex: 5,
+    from: { x: 0, z: GUARD_Z + 1 },
+    vel: { x: 0, z: -3 },
+    removal: null,
+    restored: false,
+    placedInPlay: false,
+  },
+  {
+    name: "centre guard ticked off",
+    rules: { freeGuardZoneRocks: 5, noTick: true },
+    placed: [{ x: CENTRE_GUARD_X, z: GUARD_Z }],
+    deliveryIndex: 1,
+    from: { x: CENTRE_GUARD_X - 2 * R + 0.02, z: GUARD_Z + 1 },
+    vel: { x: 0, z: -0.7 },
+    removal: "NO_TICK",
+    restored: true,
+    placedInPlay: true,
+  },
+  {
+    name: "tick without the no-tick rule",
+    rules: { freeGuardZoneRocks: 5 },
+    placed: [{ x: CENTRE_GUARD_X, z: GUARD_Z }],
+    deliveryIndex: 1,
+    from: { x: CENTRE_GUARD_X - 2 * R + 0.02, z: GUARD_Z + 1 },
+    vel: { x: 0, z: -0.7 },
+    removal: null,
+    restored: false,
+    placedInPlay: true,
+  },
+  {
+    name: "tick-free draw past a guard",
+    rules: { freeGuardZoneRocks: 5, noTick: true },
+    placed: [{ x: CENTRE_GUARD_X, z: GUARD_Z }],
+    deliveryIndex: 1,
+    from: { x: CENTRE_GUARD_X + 0.8, z: GUARD_Z + 1 },
+    vel: { x: 0, z: -0.7 },
+    removal: null,
+    restored: true,
+    placedInPlay: true,
+  },
+  {
+    name: "stone short of the hog line",
+    rules: {},
+    placed: [],
+    deliveryIndex: 0,
+    from: { x: 0, z: -HOG_Z + 3 },
+    vel: { x: 0, z: -0.3 },
+    removal: "HOG_LINE",
+    restored: true,
+    placedInPlay: true,
+  },
+  {
+    name: "short stone that struck one",
+    rules: {},
+    placed: [{ x: 0, z: -HOG_Z + 1.5 }],
+    deliveryIndex: 1,
+    from: { x: 0, z: -HOG_Z + 1.5 + 2 * R + 0.05 },
+    vel: { x: 0, z: -0.5 },
+    removal: null,
+    restored: false,
+    placedInPlay: true,
+  },
+  {
+    name: "near end board hit",
+    rules: {},
+    boards: { rebound: true },
+    placed: [],
+    deliveryIndex: 0,
+    from: { x: 0, z: BACK_LINE_Z },
+    vel: { x: 0, z: 3 },
+    removal: "END_BOARD",
+    restored: true,
+    placedInPlay: true,
+  },
+];
+
+function removals(world: PhysicsWorld): Array<{ stone: number; reason: RemovalReason }> {
+  return world.events.flatMap((e) => (e.type === "removal" ? [{ stone: e.stone, reason: e.reason }] : []));
+}
+
+function find(world: PhysicsWorld, deliveryIndex: number): StoneState | undefined {
+  return world.stones.find((s) => s.deliveryIndex === deliveryIndex);
+}
+
+function check(): boolean {
+  let ok = true;
+  const fail = (message: string) => {
+    ok = false;
+    console.log(`  ✗ ${message}`);
+  };
+
+  for (const scenario of SCENARIOS) {
+    const world = new PhysicsWorld(undefined, scenario.rules);
+    Object.assign(world.boards, scenario.boards);
+    scenario.placed.forEach((pos, i) => world.placeStone("yellow", pos, i === 0 ? 0 : scenario.deliveryIndex + i));
+    world.deliverStone("red", { x: 0, z: 0, speed: 0, angle: 0, omega: 0 }, scenario.deliveryIndex);
+    const delivered = world.getDeliveredStone()!;
+    delivered.pos = { ...scenario.from };
+    delivered.vel = { ...scenario.vel };
+    world.runUntilSettled();
+
+    const removed = removals(world).filter((r) => r.stone === scenario.deliveryIndex);
+    const reason = removed.length > 0 ? removed[removed.length - 1].reason : null;
+    const contacts = world.events.filter((e) => e.type === "collision").length;
+    console.log(`  ${scenario.name.padEnd(30)} ${contacts} contacts, ${reason ?? "no removal"}`);
+
+    if (reason !== scenario.removal) fail(`${scenario.name}: expected ${scenario.removal ?? "no removal"}, got ${reason}`);
+    if (scenario.removal === null && !find(world, scenario.deliveryIndex)?.inPlay) {
+      fail(`${scenario.name}: delivered stone not in play`);
+    }
+    scenario.placed.forEach((pos, i) => {
+      const stone = find(world, i === 0 ? 0 : scenario.deliveryIndex + i);
+      if (!stone) return fail(`${scenario.name}: placed stone ${i} missing`);
+      const moved = Math.hypot(stone.pos.x - pos.x, stone.pos.z - pos.z);
+      if (scenario.restored && moved > POSITION_TOLERANCE) fail(`${scenario.name}: stone ${i} moved ${moved.toFixed(3)} m`);
+      if (!scenario.restored && moved <= POSITION_TOLERANCE) fail(`${scenario.name}: stone ${i} was not struck`);
+      if (stone.inPlay !== scenario.placedInPlay) fail(`${scenario.name}: stone ${i} in play: ${stone.inPlay}`);
+    });
+  }
+
+  // The no-tick rule only covers the free guard zone deliveries, so it cannot be on without them
+  try {
+    new PhysicsWorld(undefined, { noTick: true });
+    fail("no-tick without free guard zone rocks was accepted");
+  } catch {
+    console.log("  no-tick without free guard zone rocks rejected");
+  }
+  return ok;
+}
+
+const passed = check();
+console.log(passed ? "\n✓ Delivery rules applied" : "\n✗ Delivery rules not applied");
+process.exit(passed ? 0 : 1);
@@ -1,14 +1,101 @@
-import type { Team, ShotRelease } from "../physics/types";
+import type { Team, ShotRelease, RuleOptions, PowerPlaySide, SweepAction } from "../physics/types";
+import { DEFAULT_RULE_OPTIONS } from "../physics/types";
 import { PhysicsWorld } from "../physics/world";
+import type { IceModel } from "../physics/ice-model";
+import { measureDrawShot, positionedStones } from "../physics/rules";
 
-export type GamePhase = "AIMING" | "DELIVERING" | "SETTLING" | "END_SCORE" | "GAME_OVER";
+/** "LSD" = aiming a pre-game Last Stone Draw; "AIMING" = aiming a stone in an end */
+export type GamePhase = "LSD" | "AIMING" | "DELIVERING" | "SETTLING" | "END_SCORE" | "GAME_OVER";
 
-const STONES_PER_TEAM = 8;
-const ENDS_PER_GAME = 2; // short game for testing; increase for full game
+/** "MIXED_DOUBLES" = two positioned stones per end plus five delivered stones per team */
+export type GameMode = "STANDARD" | "MIXED_DOUBLES";
+
+/** "SKINS" = each end is worth a skin; see SkinOutcome */
+export type ScoringFormat = "LINESCORE" | "SKINS";
+
+/** Result of one end in a skins game. */
+export interface SkinOutcome {
+  end: number;
+  /** Skin value at stake this end, including any carry-over */
+  value: number;
+  /** Team that won the skin, or null if it carried over */
+  winner: Team | null;
+}
+
+/** Mixed doubles placement decision for the team that has it. */
+export interface PlacementChoice {
+  /** Deciding team's positioned stone: in the house (they deliver second) or the centre guard (they deliver first) */
+  position: "HOUSE" | "GUARD";
+  /** Power play for the team delivering second (once per game, not in extra ends) */
+  powerPlay?: PowerPlaySide | null;
+}
+
+export interface MatchConfig {
+  mode: GameMode;
+  scoring: ScoringFormat;
+  /** Skins: value of each regulation end (ends past the list use the last value, default 1) */
+  skinValues: number[];
+  /** Regulation ends (usually 8 or 10) */
+  endsPerGame: number;
+  /** Stones delivered per team per end (excluding mixed doubles positioned stones) */
+  stonesPerTeam: number;
+  /** Play extra ends when totals are level after the last regulation end */
+  extraEnds: boolean;
+  /** Maximum number of extra ends; a game still level after them is a draw */
+  maxExtraEnds: number;
+  /** Whether a team may concede the game */
+  allowConcede: boolean;
+  /** Completed ends required before a concession is accepted */
+  minEndsBeforeConcede: number;
+  /** Team with last-stone advantage in the first end (or on a tied Last Stone Draw) */
+  firstHammer: Team;
+  /** Decide first-end hammer with a pre-game Last Stone Draw */
+  lastStoneDraw: boolean;
+  /** Draws thrown by each team in the Last Stone Draw */
+  lsdStonesPerTeam: number;
+}
+
+/** WCF mixed doubles format: 8 ends, 5 delivered stones per team */
+export const MIXED_DOUBLES_MATCH: Partial<MatchConfig> = {
+  mode: "MIXED_DOUBLES",
+  endsPerGame: 8,
+  stonesPerTeam: 5,
+};
+
+/** Mixed doubles modified free guard zone: no stone may be removed by the first three delivered stones */
+const MIXED_DOUBLES_RULES: Partial<RuleOptions> = {
+  freeGuardZoneRocks: 3,
+  freeGuardZoneAllStones: true,
+};
+
+/** Measured Last Stone Draw distances (m), in throw order */
+export interface LastStoneDrawResult {
+  red: number[];
+  yellow: number[];
+}
+
+export const DEFAULT_MATCH_CONFIG: MatchConfig = {
+  mode: "STANDARD",
+  scoring: "LINESCORE",
+  skinValues: [],
+  endsPerGame: 2, // short game for testing; increase for full game
+  stonesPerTeam: 8,
+  extraEnds: true,
+  maxExtraEnds: Infinity,
+  allowConcede: true,
+  minEndsBeforeConcede: 0,
+  firstHammer: "yellow",
+  lastStoneDraw: false,
+  lsdStonesPerTeam: 1,
+};
 
 export class GameController {
-  phase: GamePhase = "AIMING";
+  phase: GamePhase;
   world: PhysicsWorld;
+  /** Optional rules (free guard zone etc.), kept across game resets */
+  rules: RuleOptions;
+  /** Match format, kept across game resets */
+  match: MatchConfig;
 
   /** Scores indexed by end number */
   scoreHistory: Array<{ red: number; yellow: number }> = [];
@@ -16,20 +103,62 @@ export class GameController {
 
   currentEnd = 1;
   /** Which team throws first this end (team without hammer throws first) */
-  hammerTeam: Team = "yellow";
-  /** Index into delivery order (0-15, alternating teams) */
+  hammerTeam: Team;
+  /** Index into delivery order (alternating teams) */
   deliveryCount = 0;
+  /** Team that conceded the game, if any */
+  conceded: Team | null = null;
+  /** Last Stone Draw measurements so far */
+  lsd: LastStoneDrawResult = { red: [], yellow: [] };
+  /** Draw Shot Challenge: average LSD distance per team (m), once the LSD is complete */
+  drawShotChallenge: { red: number; yellow: number } | null = null;
+  /** Skins: total skin value won by each team */
+  skins = { red: 0, yellow: 0 };
+  /** Skins: value carried over from previous ends */
+  skinCarry = 0;
+  /** Skins: outcome of each completed end */
+  skinHistory: SkinOutcome[] = [];
+  /** Mixed doubles: team deciding stone placement this end */
+  placementTeam: Team;
+  /** Mixed doubles: power play side in use this end */
+  powerPlay: PowerPlaySide | null = null;
+  /** Mixed doubles: teams that have used their power play */
+  powerPlayUsed = { red: false, yellow: false };
 
   /** Time spent in END_SCORE phase (to show score briefly before next end) */
   private scoreDisplayTimer = 0;
   private static SCORE_DISPLAY_DURATION = 3.0;
 
-  constructor() {
-    this.world = new PhysicsWorld();
+  constructor(rules?: Partial<RuleOptions>, match?: Partial<MatchConfig>, iceModel?: IceModel) {
+    this.match = { ...DEFAULT_MATCH_CONFIG, ...match };
+    this.rules = {
+      ...DEFAULT_RULE_OPTIONS,
+      ...(this.match.mode === "MIXED_DOUBLES" ? MIXED_DOUBLES_RULES : {}),
+      ...rules,
+    };
+    this.hammerTeam = this.match.firstHammer;
+    this.placementTeam = this.match.firstHammer;
+    this.world = new PhysicsWorld(iceModel, this.rules);
+    this.phase = "AIMING";
+    this.beginGame();
+  }
+
+  /** True while the pre-game Last Stone Draw is being played */
+  get inLastStoneDraw(): boolean {
+    return this.match.lastStoneDraw && this.drawShotChallenge === null;
+  }
+
+  /** True when a stone can be thrown (game or Last Stone Draw) */
+  get isAiming(): boolean {
+    return this.phase === "AIMING" || this.phase === "LSD";
   }
 
   /** Which team is currently delivering */
   get currentTeam(): Team {
+    if (this.inLastStoneDraw) {
+      // Teams alternate LSD stones, red first
+      return (this.lsd.red.length + this.lsd.yellow.length) % 2 === 0 ? "red" : "yellow";
+    }
     const firstTeam = this.hammerTeam === "red" ? "yellow" : "red";
     return this.deliveryCount % 2 === 0 ? firstTeam : this.hammerTeam;
   }
@@ -42,14 +171,53 @@ export class GameController {
       thrown[team]++;
     }
     return {
-      red: STONES_PER_TEAM - thrown.red,
-      yellow: STONES_PER_TEAM - thrown.yellow,
+      red: this.match.stonesPerTeam - thrown.red,
+      yellow: this.match.stonesPerTeam - thrown.yellow,
     };
   }
 
+  /** Total deliveries in one end */
+  get deliveriesPerEnd(): number {
+    return this.match.stonesPerTeam * 2;
+  }
+
+  /** Skins: value at stake in the current end (end value plus carry-over) */
+  get skinPot(): number {
+    return this.skinCarry + this.skinValue(this.currentEnd);
+  }
+
+  /** True while playing beyond the regulation ends */
+  get isExtraEnd(): boolean {
+    return this.currentEnd > this.match.endsPerGame;
+  }
+
+  /** True if the game finished level (no extra ends, or the extra-end cap was reached) */
+  get isDraw(): boolean {
+    return this.phase === "GAME_OVER" && this.winner === null;
+  }
+
+  /** Winning team once the game is over (null while level) */
+  get winner(): Team | null {
+    if (this.conceded) return this.conceded === "red" ? "yellow" : "red";
+    if (this.match.scoring === "SKINS") {
+      if (this.skins.red > this.skins.yellow) return "red";
+      if (this.skins.yellow > this.skins.red) return "yellow";
+      return null;
+    }
+    if (this.totalScore.red > this.totalScore.yellow) return "red";
+    if (this.totalScore.yellow > this.totalScore.red) return "yellow";
+    return null;
+  }
+
   /** Called when the player releases a shot. Omega sign is already set by input. */
   throwStone(release: ShotRelease): void {
-    if (this.phase !== "AIMING") return;
+    if (!this.isAiming) return;
+
+    if (this.phase === "LSD") {
+      this.world.deliverStone(this.currentTeam, release, this.lsd.red.length + this.lsd.yellow.length);
+      this.phase = "DELIVERING";
+      return;
+    }
 
     this.world.deliverStone(this.currentTeam, release, this.deliveryCount);
     this.deliveryCount++;
@@ -65,13 +233,7 @@ export class GameController {
         if (stillMoving) {
           this.phase = "DELIVERING";
         } else {
-          // All settled
-          if (this.deliveryCount >= STONES_PER_TEAM * 2) {
-            // End is over — score it
-            this.endEnd();
-          } else {
-            this.phase = "AIMING";
-          }
+          this.deliverySettled();
         }
         break;
       }
@@ -89,18 +251,73 @@ export class GameController {
     }
   }
 
+  /**
+   * Called once all stones have come to rest after a delivery.
+   * Scores the end after its last stone, otherwise hands over to the next thrower.
+   */
+  deliverySettled(): void {
+    if (this.inLastStoneDraw) {
+      this.lastStoneDrawSettled();
+    } else if (this.deliveryCount >= this.deliveriesPerEnd) {
+      this.endEnd();
+    } else {
+      this.phase = "AIMING";
+    }
+  }
+
+  /** Measure the LSD stone just thrown, then clear the sheet for the next draw. */
+  private lastStoneDrawSettled(): void {
+    const stone = this.world.stones[this.world.stones.length - 1];
+    if (stone) {
+      this.lsd[stone.team].push(measureDrawShot(stone, this.world.targetEnd));
+    }
+    this.world.resetEnd();
+
+    const perTeam = this.match.lsdStonesPerTeam;
+    if (this.lsd.red.length >= perTeam && this.lsd.yellow.length >= perTeam) {
+      this.finishLastStoneDraw();
+    } else {
+      this.phase = "LSD";
+    }
+  }
+
+  /** Lower LSD total gets the first-end hammer; a tie keeps the configured first hammer. */
+  private finishLastStoneDraw(): void {
+    const sum = (d: number[]) => d.reduce((a, b) => a + b, 0);
+    const red = sum(this.lsd.red);
+    const yellow = sum(this.lsd.yellow);
+
+    if (red < yellow) this.hammerTeam = "red";
+    else if (yellow < red) this.hammerTeam = "yellow";
+
+    this.drawShotChallenge = {
+      red: red / this.lsd.red.length,
+      yellow: yellow / this.lsd.yellow.length,
+    };
+    this.placementTeam = this.hammerTeam;
+    this.phase = "AIMING";
+    this.positionStones();
+  }
+
   private endEnd(): void {
     const result = this.world.score();
     this.scoreHistory.push({ red: result.red, yellow: result.yellow });
     this.totalScore.red += result.red;
     this.totalScore.yellow += result.yellow;
+    if (this.match.scoring === "SKINS") {
+      this.awardSkin(result.winner, result.red + result.yellow);
+    }
 
     // Team that scored does NOT get hammer next end (in curling, scoring team loses hammer)
     if (result.winner) {
       this.hammerTeam = result.winner === "red" ? "yellow" : "red";
+    } else if (this.match.mode === "MIXED_DOUBLES") {
+      // Mixed doubles blank end: the team that delivered first gets the placement decision
+      this.hammerTeam = this.hammerTeam === "red" ? "yellow" : "red";
     }
+    this.placementTeam = this.hammerTeam;
 
-    if (this.currentEnd >= ENDS_PER_GAME) {
+    if (this.isGameDecided()) {
       this.phase = "GAME_OVER";
     } else {
       this.phase = "END_SCORE";
@@ -108,13 +325,124 @@ export class GameController {
     }
   }
 
-  private startNextEnd(): void {
+  /**
+   * Skins: the hammer team needs two or more to win the skin, otherwise it carries over;
+   * a steal wins the skin outright. Call before the hammer changes hands.
+   */
+  private awardSkin(scorer: Team | null, points: number): void {
+    const value = this.skinPot;
+    const won = scorer !== null && (scorer !== this.hammerTeam || points >= 2);
+
+    if (won) {
+      this.skins[scorer] += value;
+      this.skinCarry = 0;
+    } else {
+      this.skinCarry = value;
+    }
+    this.skinHistory.push({ end: this.currentEnd, value, winner: won ? scorer : null });
+  }
+
+  /** Skins: value of an end; extra ends only play for the carry-over. */
+  private skinValue(end: number): number {
+    if (end > this.match.endsPerGame) return 0;
+    const values = this.match.skinValues;
+    if (values.length === 0) return 1;
+    return values[Math.min(end, values.length) - 1];
+  }
+
+  /** True when no further end should be played. */
+  private isGameDecided(): boolean {
+    if (this.currentEnd < this.match.endsPerGame) return false;
+    if (this.match.scoring === "SKINS") {
+      // Extra ends are only played for a skin carried out of the last end
+      if (this.skinCarry === 0 || !this.match.extraEnds) return true;
+      return this.currentEnd - this.match.endsPerGame >= this.match.maxExtraEnds;
+    }
+    if (this.winner !== null || !this.match.extraEnds) return true;
+    // Still level: play on until the extra-end cap, then fall back to a draw
+    return this.currentEnd - this.match.endsPerGame >= this.match.maxExtraEnds;
+  }
+
+  /** Clear the sheet and begin the next end from the other end of the sheet. */
+  startNextEnd(): void {
     this.currentEnd++;
     this.deliveryCount = 0;
+    this.powerPlay = null;
     this.world.resetEnd();
+    this.world.iceWear?.repebble();
+    this.world.iceConditions?.advanceEnd();
     // Flip target end
     this.world.targetEnd = this.world.targetEnd === -1 ? 1 : -1;
     this.phase = "AIMING";
+    this.positionStones();
+  }
+
+  /**
+   * Mixed doubles: apply the placement decision for the current end.
+   * Only valid before the first stone of the end is delivered. Returns false
+   * if the choice is not allowed (wrong mode, end under way, power play unavailable).
+   * Only the deciding team may call a power play, and only by taking the house stone.
+   */
+  placeStones(choice: PlacementChoice): boolean {
+    if (this.match.mode !== "MIXED_DOUBLES") return false;
+    if (this.phase !== "AIMING" || this.deliveryCount > 0) return false;
+
+    const other: Team = this.placementTeam === "red" ? "yellow" : "red";
+    const hammer = choice.position === "HOUSE" ? this.placementTeam : other;
+    const powerPlay = choice.powerPlay ?? null;
+    if (powerPlay && choice.position !== "HOUSE") return false;
+    const usedEarlier = this.powerPlayUsed[hammer] && !(this.powerPlay && this.hammerTeam === hammer);
+    if (powerPlay && (this.isExtraEnd || usedEarlier)) {
+      return false;
+    }
+
+    // Undo a power play claimed by an earlier choice this end
+    if (this.powerPlay) this.powerPlayUsed[this.hammerTeam] = false;
+
+    this.hammerTeam = hammer;
+    this.powerPlay = powerPlay;
+    if (powerPlay) this.powerPlayUsed[hammer] = true;
+    this.positionStones();
+    return true;
+  }
+
+  /** Start the game: the Last Stone Draw if configured, otherwise the first end. */
+  private beginGame(): void {
+    if (this.match.lastStoneDraw) {
+      this.phase = "LSD";
+    } else {
+      this.positionStones();
+    }
+  }
+
+  /**
+   * Mixed doubles: put the positioned stones on a cleared sheet. The team delivering
+   * first (without hammer) gets the guard, the hammer team the house stone.
+   */
+  private positionStones(): void {
+    if (this.match.mode !== "MIXED_DOUBLES") return;
+
+    const first: Team = this.hammerTeam === "red" ? "yellow" : "red";
+    const { guard, house } = positionedStones(this.world.targetEnd, this.powerPlay);
+    // Positioned stones take indices after the delivered stones
+    const base = this.deliveriesPerEnd;
+
+    this.world.resetEnd();
+    this.world.placeStone(first, guard, base);
+    this.world.placeStone(this.hammerTeam, house, base + 1);
+  }
+
+  /**
+   * Concede the game on behalf of `team`.
+   * Returns false if conceding is not allowed at this point.
+   */
+  concede(team: Team): boolean {
+    if (!this.match.allowConcede || this.phase === "GAME_OVER") return false;
+    if (this.scoreHistory.length < this.match.minEndsBeforeConcede) return false;
+
+    this.conceded = team;
+    this.phase = "GAME_OVER";
+    return true;
   }
 
   /** Reset entire game. */
@@ -123,12 +451,44 @@ export class GameController {
     this.deliveryCount = 0;
     this.totalScore = { red: 0, yellow: 0 };
     this.scoreHistory = [];
-    this.hammerTeam = "yellow";
-    this.world = new PhysicsWorld();
+    this.hammerTeam = this.match.firstHammer;
+    this.conceded = null;
+    this.lsd = { red: [], yellow: [] };
+    this.drawShotChallenge = null;
+    this.skins = { red: 0, yellow: 0 };
+    this.skinCarry = 0;
+    this.skinHistory = [];
+    this.placementTeam = this.match.firstHammer;
+    this.powerPlay = null;
+    this.powerPlayUsed = { red: false, yellow: false };
+    // Keep the ice, stones, sweeping, integrator, collision model and boards across games; a new game starts on fresh pebble in the starting conditions
+    const { iceModel, iceMap, iceWear, pebbleNoise, iceConditions, stoneSet, sweep, integrator, collisionModel, boards } =
+      this.world;
+    this.world = new PhysicsWorld(iceModel, this.rules);
+    this.world.sweep = sweep;
+    sweep.heat = 0;
+    this.world.iceMap = iceMap;
+    this.world.iceWear = iceWear;
+    this.world.pebbleNoise = pebbleNoise;
+    this.world.iceConditions = iceConditions;
+    this.world.stoneSet = stoneSet;
+    this.world.integrator = integrator;
+    this.world.collisionModel = collisionModel;
+    this.world.boards = boards;
+    iceWear?.reset();
+    pebbleNoise?.reset();
+    iceConditions?.reset();
     this.phase = "AIMING";
+    this.beginGame();
+  }
+
+  /** Update the sweeping state; omitted fields keep their current value. */
+  setSweep(action: Partial<SweepAction>): void {
+    this.world.sweep.set(action);
   }
 
+  /** Full-effort sweeping on or off. */
   setSweeping(active: boolean): void {
-    this.world.sweeping = active;
+    this.world.sweep.set({ intensity: active ? 1 : 0 });
   }
 }
@@ -1,6 +1,19 @@
 import type { GameController } from "./game-controller";
 import type { InputHandler } from "./input-handler";
 
+/** Display label for an end, e.g. "End 3" or "Extra end". */
+export function endLabel(game: GameController, end = game.currentEnd): string {
+  const extra = end - game.match.endsPerGame;
+  if (extra <= 0) return `End ${end}`;
+  return extra === 1 ? "Extra end" : `Extra end ${extra}`;
+}
+
+/** LSD distances so far in centimetres, e.g. "R 45.2 Y 120.0". */
+function formatLsd(game: GameController): string {
+  const fmt = (d: number[]) => (d.length ? d.map((v) => (v * 100).toFixed(1)).join(", ") : "–");
+  return `R ${fmt(game.lsd.red)} &nbsp; Y ${fmt(game.lsd.yellow)}`;
+}
+
 export class HUD {
   private container: HTMLDivElement;
   private scoreEl: HTMLDivElement;
@@ -95,7 +108,7 @@ export class HUD {
       display: this.isTouchDevice ? "none" : "block",
     });
     this.controlsEl.innerHTML =
-      "<b>A/D</b> aim &nbsp; <b>W/S</b> power &nbsp; <b>Q/E</b> spin (CCW/CW) &nbsp; <b>SPACE</b> throw/sweep &nbsp; <b>R</b> restart &nbsp; | &nbsp; Mouse = camera";
+      "<b>A/D</b> aim &nbsp; <b>W/S</b> power &nbsp; <b>Q/E</b> spin (CCW/CW) &nbsp; <b>SPACE</b> throw/sweep &nbsp; <b>1-3</b> sweepers &nbsp; <b>B</b> front/broad &nbsp; <b>R</b> restart &nbsp; | &nbsp; Mouse = camera";
 
     document.body.appendChild(this.container);
   }
@@ -111,13 +124,43 @@ export class HUD {
     return el;
   }
 
+  /** Mixed doubles placement / power play line for the turn info. */
+  private placementInfo(game: GameController): string {
+    if (game.match.mode !== "MIXED_DOUBLES") return "";
+    const parts: string[] = [];
+    if (game.deliveryCount === 0) {
+      const controls = this.isTouchDevice
+        ? "swap stones or call a power play below"
+        : "<b>G</b> swap stones &nbsp; <b>P</b> power play";
+      parts.push(`${game.placementTeam.toUpperCase()} places: ${controls}`);
+    }
+    if (game.powerPlay) {
+      parts.push(`Power play ${game.powerPlay.toLowerCase()}`);
+    }
+    return parts.length ? `<br>${parts.join(" &nbsp;|&nbsp; ")}` : "";
+  }
+
+  /** Skins outcome of the last end for the end-score message. */
+  private skinInfo(game: GameController): string {
+    const last = game.skinHistory[game.skinHistory.length - 1];
+    if (game.match.scoring !== "SKINS" || !last) return "";
+    return last.winner
+      ? `<br>${last.winner.toUpperCase()} wins a skin worth ${last.value}`
+      : `<br>Skin worth ${last.value} carries over`;
+  }
+
   update(game: GameController, input: InputHandler): void {
     // Score
     const remaining = game.stonesRemaining;
+    const skins = game.match.scoring === "SKINS";
+    const red = skins ? game.skins.red : game.totalScore.red;
+    const yellow = skins ? game.skins.yellow : game.totalScore.yellow;
+    const pot = skins ? `<span style="color:#00ff88">Pot ${game.skinPot}</span>` : "";
     this.scoreEl.innerHTML = `
-      <span style="color:#ff4455">RED ${game.totalScore.red}</span>
-      <span style="color:#aaa">End ${game.currentEnd}</span>
-      <span style="color:#ffcc00">YELLOW ${game.totalScore.yellow}</span>
+      <span style="color:#ff4455">RED ${red}</span>
+      <span style="color:#aaa">${game.inLastStoneDraw ? "Last Stone Draw" : endLabel(game)}</span>
+      ${pot}
+      <span style="color:#ffcc00">YELLOW ${yellow}</span>
     `;
 
     const teamColor = game.currentTeam === "red" ? "#ff4455" : "#ffcc00";
@@ -128,48 +171,72 @@ export class HUD {
     const spinLabel = input.aimOmega > 0.05 ? "CW" : input.aimOmega < -0.05 ? "CCW" : "none";
     const spinVal = Math.abs(input.aimOmega).toFixed(1);
 
-    if (game.phase === "AIMING") {
+    if (game.phase === "LSD") {
+      const thrown = game.lsd[game.currentTeam].length;
+      this.turnInfoEl.innerHTML = `
+        <span style="color:${teamColor}">${teamName}</span> LSD ${thrown + 1}/${game.match.lsdStonesPerTeam}
+        &nbsp;|&nbsp; Aim: ${angleDeg}&deg;
+        &nbsp;|&nbsp; Speed: ${timeVal}s
+        &nbsp;|&nbsp; Spin: <span style="color:#ffaa00">${spinVal} ${spinLabel}</span>
+        &nbsp;|&nbsp; ${formatLsd(game)}
+      `;
+      this.turnInfoEl.style.opacity = "1";
+    } else if (game.phase === "AIMING") {
       this.turnInfoEl.innerHTML = `
         <span style="color:${teamColor}">${teamName}</span> to throw
         &nbsp;|&nbsp; Aim: ${angleDeg}&deg;
         &nbsp;|&nbsp; Speed: ${timeVal}s
         &nbsp;|&nbsp; Spin: <span style="color:#ffaa00">${spinVal} ${spinLabel}</span>
         &nbsp;|&nbsp; R:${remaining.red} Y:${remaining.yellow}
+        ${this.placementInfo(game)}
       `;
       this.turnInfoEl.style.opacity = "1";
     } else if (game.phase === "DELIVERING") {
-      this.turnInfoEl.innerHTML = this.isTouchDevice 
-        ? `Hold <b>SWEEP</b> button to sweep`
-        : `Hold <b>SPACE</b> to sweep`;
+      const sweep = game.world.sweep;
+      const crew = `${sweep.sweepers} sweeper${sweep.sweepers === 1 ? "" : "s"}, ${
+        sweep.placement === "FRONT" ? "in front" : "broad"
+      }`;
+      this.turnInfoEl.innerHTML = this.isTouchDevice
+        ? `Hold <b>SWEEP</b> button to sweep, tap fast to sweep harder &nbsp;|&nbsp; ${crew}`
+        : `Hold <b>SPACE</b> to sweep, tap fast to sweep harder &nbsp;|&nbsp; ${crew}`;
       this.turnInfoEl.style.opacity = "1";
     } else {
       this.turnInfoEl.style.opacity = "0.5";
     }
 
     // Sweep indicator
-    this.sweepIndicator.style.opacity =
-      game.phase === "DELIVERING" && game.world.sweeping ? "1" : "0";
+    const sweepEffect = game.world.sweep.effect;
+    const showSweep = game.phase === "DELIVERING" && sweepEffect > 0.02;
+    this.sweepIndicator.style.opacity = showSweep ? String(Math.min(1, 0.4 + sweepEffect)) : "0";
+    if (showSweep) this.sweepIndicator.textContent = `SWEEPING ${Math.round(sweepEffect * 100)}%`;
 
     // Messages
     if (game.phase === "END_SCORE") {
       const lastScore = game.scoreHistory[game.scoreHistory.length - 1];
       const who = lastScore.red > 0 ? "RED" : lastScore.yellow > 0 ? "YELLOW" : "No one";
       const pts = Math.max(lastScore.red, lastScore.yellow);
+      const reason = skins ? "Skin carried" : "Tied";
+      const nextEnd = game.currentEnd >= game.match.endsPerGame
+        ? `<br><span style="font-size:clamp(11px, 2.5vw, 14px)">${reason} — ${endLabel(game, game.currentEnd + 1)} next</span>`
+        : "";
       this.messageEl.innerHTML = pts > 0
-        ? `End ${game.currentEnd} complete<br>${who} scores ${pts}!`
-        : `End ${game.currentEnd} complete<br>Blank end!`;
+        ? `${endLabel(game)} complete<br>${who} scores ${pts}!${this.skinInfo(game)}${nextEnd}`
+        : `${endLabel(game)} complete<br>Blank end!${this.skinInfo(game)}${nextEnd}`;
       this.messageEl.style.opacity = "1";
     } else if (game.phase === "GAME_OVER") {
-      const winner =
-        game.totalScore.red > game.totalScore.yellow
-          ? "RED"
-          : game.totalScore.yellow > game.totalScore.red
-            ? "YELLOW"
-            : "TIE";
+      const result = game.winner
+        ? `${game.winner.toUpperCase()} wins`
+        : "Draw";
       const restartHint = this.isTouchDevice 
         ? '<span style="font-size:clamp(11px, 2.5vw, 14px)">Tap RESTART to play again</span>'
         : '<span style="font-size:clamp(11px, 2.5vw, 14px)">Press R to restart</span>';
-      this.messageEl.innerHTML = `Game Over!<br>${winner} wins ${game.totalScore.red}-${game.totalScore.yellow}<br>${restartHint}`;
+      const dsc = game.drawShotChallenge
+        ? `<br><span style="font-size:clamp(11px, 2.5vw, 14px)">DSC: R ${(game.drawShotChallenge.red * 100).toFixed(1)} cm &nbsp; Y ${(game.drawShotChallenge.yellow * 100).toFixed(1)} cm</span>`
+        : "";
+      const final = skins
+        ? `${game.skins.red}-${game.skins.yellow} in skins`
+        : `${game.totalScore.red}-${game.totalScore.yellow}`;
+      this.messageEl.innerHTML = `Game Over!<br>${result} ${final}${dsc}<br>${restartHint}`;
       this.messageEl.style.opacity = "1";
     } else {
       this.messageEl.style.opacity = "0";
@@ -1,5 +1,5 @@
 import * as THREE from "three";
-import type { ShotRelease, Team } from "../physics/types";
+import type { ShotRelease, StoneState, Team } from "../physics/types";
 import { DEFAULT_ICE_PARAMS, GRAVITY } from "../physics/types";
 import type { GameController } from "./game-controller";
 import { HACK_Z, HOG_Z } from "../utils/constants";
@@ -14,6 +14,11 @@ const OMEGA_STEP = 0.016; // 2x faster spin adjustment
 export const MAX_AIM_ANGLE = Math.PI / 8;
 const AIM_ANGLE_STEP = 0.003;
 
+// Sweeping: holding the key sweeps steadily; tapping it rapidly sweeps harder
+const SWEEP_HOLD_INTENSITY = 0.6;
+const SWEEP_TAP_INTENSITY = 0.25; // intensity per press within the tap window
+const SWEEP_TAP_WINDOW_MS = 1000;
+
 const PREVIEW_DT = 1 / 30;
 const PREVIEW_MAX_STEPS = 900;
 const PREVIEW_SAMPLE_EVERY = 3;
@@ -92,7 +97,10 @@ function timeToSpeed(targetTime: number): number {
  *   A / D  or  Left / Right  — aim direction
  *   W / S  or  Up / Down     — speed (hog-to-hog seconds)
  *   Q / E                    — spin (Q = CCW, E = CW)
- *   SPACE                    — throw / sweep
+ *   SPACE                    — throw / sweep (hold to sweep, tap rapidly to sweep harder)
+ *   1 / 2 / 3                — number of sweepers
+ *   B                        — sweep in front of the stone / broadly
+ *   G / P                    — mixed doubles: swap positioned stones / cycle power play
  *   R                        — restart
  */
 export class InputHandler {
@@ -111,6 +119,8 @@ export class InputHandler {
 
   private keysDown = new Set<string>();
   private needsTrajectoryUpdate = true;
+  private sweepHeld = false;
+  private sweepPresses: number[] = [];
 
   // Per-team control storage
   private teamControls: {
@@ -175,13 +185,28 @@ export class InputHandler {
 
     if (e.code === "Space") {
       e.preventDefault();
-      if (this.game.phase === "AIMING") {
+      if (this.game.isAiming) {
         this.game.throwStone(this.buildRelease());
-      } else if (this.game.phase === "DELIVERING") {
-        this.game.setSweeping(true);
+      } else if (!e.repeat) {
+        this.sweepPress();
       }
     }
 
+    if (e.code === "Digit1" || e.code === "Digit2" || e.code === "Digit3") {
+      this.game.setSweep({ sweepers: Number(e.code.slice(-1)) });
+    }
+    if (e.code === "KeyB") {
+      this.toggleSweepPlacement();
+    }
+
+    // Mixed doubles placement before the first stone: G swaps positioned stones, P cycles power play
+    if (this.game.match.mode === "MIXED_DOUBLES" && e.code === "KeyG") {
+      this.swapPlacedStones();
+    }
+    if (this.game.match.mode === "MIXED_DOUBLES" && e.code === "KeyP") {
+      this.cyclePowerPlay();
+    }
+
     if (e.code === "KeyR" && (this.game.phase === "GAME_OVER" || this.game.phase === "END_SCORE")) {
       this.game.resetGame();
     }
@@ -190,12 +215,62 @@ export class InputHandler {
   private onKeyUp = (e: KeyboardEvent): void => {
     this.keysDown.delete(e.code);
     if (e.code === "Space") {
-      this.game.setSweeping(false);
+      this.sweepRelease();
     }
   };
 
+  /** Sweep key or button pressed (only while a stone is being delivered). */
+  sweepPress(): void {
+    if (this.game.phase !== "DELIVERING") return;
+    this.sweepHeld = true;
+    this.sweepPresses.push(performance.now());
+  }
+
+  /** Sweep key or button released. */
+  sweepRelease(): void {
+    this.sweepHeld = false;
+  }
+
+  /** Switch between sweeping just in front of the stone and sweeping broadly. */
+  toggleSweepPlacement(): void {
+    this.game.setSweep({ placement: this.game.world.sweep.placement === "FRONT" ? "BROAD" : "FRONT" });
+  }
+
+  /** Mixed doubles placement: swap which team's stone sits in the house, and with it the hammer. */
+  swapPlacedStones(): void {
+    const position = this.game.hammerTeam === this.game.placementTeam ? "GUARD" : "HOUSE";
+    this.game.placeStones({ position, powerPlay: null });
+  }
+
+  /** Mixed doubles placement: cycle the power play off → right → left → off. */
+  cyclePowerPlay(): void {
+    // A power play is called with the house stone
+    const next = this.game.powerPlay === null ? "RIGHT" : this.game.powerPlay === "RIGHT" ? "LEFT" : null;
+    this.game.placeStones({ position: "HOUSE", powerPlay: next });
+  }
+
+  /** Turn recent sweep presses into a sweep intensity. */
+  private updateSweep(): void {
+    if (this.game.phase !== "DELIVERING") {
+      this.sweepHeld = false;
+      this.sweepPresses = [];
+      if (this.game.world.sweep.intensity > 0) this.game.setSweep({ intensity: 0 });
+      return;
+    }
+    const now = performance.now();
+    this.sweepPresses = this.sweepPresses.filter((t) => now - t < SWEEP_TAP_WINDOW_MS);
+    const tapped = Math.min(1, SWEEP_TAP_INTENSITY * this.sweepPresses.length);
+    // Between rapid taps the key is up, so keep sweeping at the tapping rate
+    const intensity = this.sweepHeld
+      ? Math.max(SWEEP_HOLD_INTENSITY, tapped)
+      : this.sweepPresses.length >= 2 ? tapped : 0;
+    this.game.setSweep({ intensity });
+  }
+
   update(): void {
-    if (this.game.phase !== "AIMING") {
+    this.updateSweep();
+
+    if (!this.game.isAiming) {
       this.aimGroup.visible = false;
       this.trajectoryMesh.visible = false;
       this.trajectoryHead.visible = false;
@@ -312,41 +387,42 @@ export class InputHandler {
     let pz = hackZ;
     let vx = -targetEnd * Math.sin(this.aimAngle) * speed;
     let vz = targetEnd * Math.cos(this.aimAngle) * speed;
-    let omega = this.aimOmega;
 
-    const ice = DEFAULT_ICE_PARAMS;
+    const ice = this.game.world.iceModel;
+    const conditions = this.game.world.iceConditions?.factors;
+    const stone: StoneState = {
+      pos: { x: px, z: pz },
+      vel: { x: vx, z: vz },
+      omega: this.aimOmega,
+      angle: 0,
+      team: this.game.currentTeam,
+      inPlay: true,
+      deliveryIndex: -1,
+    };
     const points: THREE.Vector3[] = [new THREE.Vector3(px, 0.10, pz)];
 
     for (let step = 0; step < PREVIEW_MAX_STEPS; step++) {
       const spd = Math.sqrt(vx * vx + vz * vz);
       if (spd < 0.01) break;
 
-      const vHatX = vx / spd;
-      const vHatZ = vz / spd;
-
-      // Friction
-      const mu = Math.min(ice.mu0 * Math.pow(spd, -0.5), ice.muMax);
-      let ax = -mu * GRAVITY * vHatX;
-      let az = -mu * GRAVITY * vHatZ;
-
-      // Curl
-      if (Math.abs(omega) > 0.05) {
-        const curlMag = ice.curlCoeff * Math.min(1.0 / spd, 8.0);
-        const omegaF = Math.min(Math.abs(omega) / 0.3, 1.0);
-        ax += -Math.sign(omega) * curlMag * omegaF * vHatZ;
-        az += -Math.sign(omega) * curlMag * omegaF * (-vHatX);
-      }
+      // Same ice model and rink conditions as the real simulation, at a coarser step;
+      // the ice map and pebble wear are left for the player to read
+      stone.vel.x = vx;
+      stone.vel.z = vz;
+      const { ax, az, alphaOmega } = ice.computeForces(stone, 0, conditions);
 
       vx += ax * PREVIEW_DT;
       vz += az * PREVIEW_DT;
       px += vx * PREVIEW_DT;
       pz += vz * PREVIEW_DT;
+      stone.pos.x = px;
+      stone.pos.z = pz;
 
       // Spin decay
-      if (Math.abs(omega) > 0.01) {
-        const sF = 1.0 + 2.0 / (1.0 + spd);
-        omega -= ice.kSpin * Math.sign(omega) * sF * 19.96 * GRAVITY * PREVIEW_DT;
-        if (Math.abs(omega) < 0.01) omega = 0;
+      if (stone.omega !== 0) {
+        const prevOmega = stone.omega;
+        stone.omega += alphaOmega * PREVIEW_DT;
+        if (Math.abs(stone.omega) < 0.01 || Math.sign(stone.omega) !== Math.sign(prevOmega)) stone.omega = 0;
       }
 
       if (step % PREVIEW_SAMPLE_EVERY === 0) {
@@ -389,7 +465,7 @@ export class InputHandler {
   /** Public setters for touch controls to update aim parameters */
   setAimAngle(value: number): void {
     this.aimAngle = Math.max(-MAX_AIM_ANGLE, Math.min(MAX_AIM_ANGLE, value));
-    if (this.game.phase === "AIMING") {
+    if (this.game.isAiming) {
       const currentTeam = this.game.currentTeam;
       this.teamControls[currentTeam].aimAngle = this.aimAngle;
     }
@@ -398,7 +474,7 @@ export class InputHandler {
 
   setAimTime(value: number): void {
     this.aimTime = Math.max(MIN_TIME, Math.min(MAX_TIME, value));
-    if (this.game.phase === "AIMING") {
+    if (this.game.isAiming) {
       const currentTeam = this.game.currentTeam;
       this.teamControls[currentTeam].aimTime = this.aimTime;
     }
@@ -407,7 +483,7 @@ export class InputHandler {
 
   setAimOmega(value: number): void {
     this.aimOmega = Math.max(-MAX_OMEGA, Math.min(MAX_OMEGA, value));
-    if (this.game.phase === "AIMING") {
+    if (this.game.isAiming) {
       const currentTeam = this.game.currentTeam;
       this.teamControls[currentTeam].aimOmega = this.aimOmega;
     }
@@ -416,7 +492,7 @@ export class InputHandler {
 
   /** Throw stone with current aim parameters */
   throwWithCurrentAim(): void {
-    if (this.game.phase === "AIMING") {
+    if (this.game.isAiming) {
       this.game.throwStone(this.buildRelease());
     }
   }
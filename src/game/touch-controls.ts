@@ -1,6 +1,7 @@
 import type { GameController } from "./game-controller";
 import type { InputHandler } from "./input-handler";
 import { MIN_TIME, MAX_TIME, MAX_AIM_ANGLE, MAX_OMEGA } from "./input-handler";
+import { endLabel } from "./hud";
 
 const CONTROL_PANEL_HEIGHT = 35; // Percentage of viewport height
 
@@ -29,11 +30,16 @@ export class TouchControls {
   private spinMin!: number;
   private spinMax!: number;
   private throwBtn!: HTMLButtonElement;
+  private swapStonesBtn!: HTMLButtonElement;
+  private powerPlayBtn!: HTMLButtonElement;
 
   // Delivering controls
   private sweepBtn!: HTMLButtonElement;
+  private sweepersBtn!: HTMLButtonElement;
+  private placementBtn!: HTMLButtonElement;
 
   // End score controls
+  private endInfo!: HTMLSpanElement;
   private continueBtn!: HTMLButtonElement;
   private restartBtn!: HTMLButtonElement;
 
@@ -193,17 +199,38 @@ export class TouchControls {
       this.input.throwWithCurrentAim();
     });
     Object.assign(this.throwBtn.style, {
-      marginTop: "4px",
+      flex: "1",
       fontSize: "clamp(14px, 3vw, 18px)",
       fontWeight: "bold",
       padding: "12px",
       background: "linear-gradient(135deg, #00cc66, #00aa55)",
     });
 
+    // Mixed doubles placement before the first stone, as the G and P keys
+    this.swapStonesBtn = this.createButton("SWAP STONES", () => {
+      this.input.swapPlacedStones();
+    });
+    this.powerPlayBtn = this.createButton(this.powerPlayLabel(), () => {
+      this.input.cyclePowerPlay();
+    });
+    for (const btn of [this.swapStonesBtn, this.powerPlayBtn]) {
+      Object.assign(btn.style, { marginLeft: "8px", whiteSpace: "nowrap" });
+    }
+
+    const throwGroup = document.createElement("div");
+    Object.assign(throwGroup.style, {
+      display: "flex",
+      alignItems: "stretch",
+      marginTop: "4px",
+    });
+    throwGroup.appendChild(this.throwBtn);
+    throwGroup.appendChild(this.swapStonesBtn);
+    throwGroup.appendChild(this.powerPlayBtn);
+
     panel.appendChild(aimGroup);
     panel.appendChild(powerGroup);
     panel.appendChild(spinGroup);
-    panel.appendChild(this.throwBtn);
+    panel.appendChild(throwGroup);
 
     return panel;
   }
@@ -218,9 +245,8 @@ export class TouchControls {
       width: "100%",
     });
 
-    this.sweepBtn = this.createButton("SWEEP", () => {
-      this.game.setSweeping(true);
-    });
+    // Sweeping follows the press and release below; tap rapidly to sweep harder
+    this.sweepBtn = this.createButton("SWEEP");
     Object.assign(this.sweepBtn.style, {
       fontSize: "clamp(18px, 4vw, 24px)",
       fontWeight: "bold",
@@ -230,28 +256,51 @@ export class TouchControls {
       maxWidth: "400px",
     });
 
-    // Handle touch end to stop sweeping
-    this.sweepBtn.addEventListener("touchend", (e) => {
-      e.preventDefault();
-      this.game.setSweeping(false);
-    });
-    this.sweepBtn.addEventListener("touchcancel", (e) => {
+    this.sweepBtn.addEventListener("pointerdown", (e) => {
       e.preventDefault();
-      this.game.setSweeping(false);
+      this.input.sweepPress();
     });
-    this.sweepBtn.addEventListener("pointerup", (e) => {
-      e.preventDefault();
-      this.game.setSweeping(false);
+    for (const type of ["touchend", "touchcancel", "pointerup", "pointercancel"]) {
+      this.sweepBtn.addEventListener(type, (e) => {
+        e.preventDefault();
+        this.input.sweepRelease();
+      });
+    }
+
+    this.sweepersBtn = this.createButton(this.sweepersLabel(), () => {
+      this.game.setSweep({ sweepers: (this.game.world.sweep.sweepers % 3) + 1 });
     });
-    this.sweepBtn.addEventListener("pointercancel", (e) => {
-      e.preventDefault();
-      this.game.setSweeping(false);
+    this.placementBtn = this.createButton(this.placementLabel(), () => {
+      this.input.toggleSweepPlacement();
     });
+    for (const btn of [this.sweepersBtn, this.placementBtn]) {
+      Object.assign(btn.style, { marginLeft: "8px", whiteSpace: "nowrap" });
+    }
 
     panel.appendChild(this.sweepBtn);
+    panel.appendChild(this.sweepersBtn);
+    panel.appendChild(this.placementBtn);
     return panel;
   }
 
+  private sweepersLabel(): string {
+    const n = this.game.world.sweep.sweepers;
+    return `${n} SWEEPER${n === 1 ? "" : "S"}`;
+  }
+
+  private placementLabel(): string {
+    return this.game.world.sweep.placement === "FRONT" ? "IN FRONT" : "BROAD";
+  }
+
+  private powerPlayLabel(): string {
+    return `POWER PLAY: ${this.game.powerPlay ?? "OFF"}`;
+  }
+
+  /** True while the mixed doubles stones can still be placed this end. */
+  private get placing(): boolean {
+    return this.game.match.mode === "MIXED_DOUBLES" && this.game.isAiming && this.game.deliveryCount === 0;
+  }
+
   private createEndScorePanel(): HTMLDivElement {
     const panel = document.createElement("div");
     panel.id = "touch-controls-endscore";
@@ -263,6 +312,13 @@ export class TouchControls {
       width: "100%",
     });
 
+    // Shows when the next end is an extra end
+    this.endInfo = document.createElement("span");
+    Object.assign(this.endInfo.style, {
+      fontSize: "clamp(12px, 2.5vw, 14px)",
+      color: "#ffcc00",
+    });
+
     this.continueBtn = this.createButton("CONTINUE", () => {
       // This will be handled by game logic - button only shows during END_SCORE
       // For now, we'll let the game handle it automatically
@@ -282,6 +338,7 @@ export class TouchControls {
       background: "linear-gradient(135deg, #ff4455, #cc3344)",
     });
 
+    panel.appendChild(this.endInfo);
     panel.appendChild(this.continueBtn);
     panel.appendChild(this.restartBtn);
     return panel;
@@ -419,7 +476,8 @@ export class TouchControls {
     return value.toFixed(1);
   }
 
-  private createButton(text: string, onClick: () => void): HTMLButtonElement {
+  /** A styled button; without `onClick` the caller wires up its own events. */
+  private createButton(text: string, onClick?: () => void): HTMLButtonElement {
     const btn = document.createElement("button");
     btn.textContent = text;
     Object.assign(btn.style, {
@@ -436,11 +494,13 @@ export class TouchControls {
       minHeight: "44px",
     });
 
-    btn.addEventListener("click", (e) => {
-      e.preventDefault();
-      e.stopPropagation();
-      onClick();
-    });
+    if (onClick) {
+      btn.addEventListener("click", (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        onClick();
+      });
+    }
 
     btn.addEventListener("touchstart", (e) => {
       e.stopPropagation();
@@ -472,12 +532,18 @@ export class TouchControls {
 
   updateVisibility(): void {
     const phase = this.game.phase;
-    this.aimingPanel.style.display = phase === "AIMING" ? "flex" : "none";
+    this.aimingPanel.style.display = this.game.isAiming ? "flex" : "none";
+    for (const btn of [this.swapStonesBtn, this.powerPlayBtn]) {
+      btn.style.display = this.placing ? "block" : "none";
+    }
     this.deliveringPanel.style.display = phase === "DELIVERING" ? "flex" : "none";
     
     if (phase === "END_SCORE" || phase === "GAME_OVER") {
       this.endScorePanel.style.display = "flex";
       this.continueBtn.style.display = phase === "END_SCORE" ? "block" : "none";
+      const nextIsExtra = phase === "END_SCORE" && this.game.currentEnd >= this.game.match.endsPerGame;
+      this.endInfo.textContent = nextIsExtra ? `Next: ${endLabel(this.game, this.game.currentEnd + 1)}` : "";
+      this.endInfo.style.display = nextIsExtra ? "block" : "none";
       this.restartBtn.style.display = "block";
     } else {
       this.endScorePanel.style.display = "none";
@@ -487,8 +553,12 @@ export class TouchControls {
 
   /** Sync slider positions and values with current input state */
   sync(): void {
-    if (this.game.phase === "AIMING") {
+    if (this.game.isAiming) {
       this.syncSliders();
+      this.powerPlayBtn.textContent = this.powerPlayLabel();
+    } else if (this.game.phase === "DELIVERING") {
+      this.sweepersBtn.textContent = this.sweepersLabel();
+      this.placementBtn.textContent = this.placementLabel();
     }
   }
 
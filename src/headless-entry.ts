@@ -16,29 +16,154 @@ export type {
   Vec2,
   StoneState,
   IceParams,
+  RuleOptions,
   ShotRelease,
   SweepAction,
+  SweepPlacement,
+  SweepMark,
+  SweepSegment,
+  SweepContext,
+  SweepPolicy,
+  SweepPlan,
+  StoneProperties,
+  IntegratorKind,
+  IntegratorSettings,
+  EndScore,
+  CountingStone,
+  StoneContact,
+  StoneRemoval,
+  StepEvents,
+  StepMotion,
+  Board,
+  BoardHit,
+  BoardSettings,
+  RemovalReason,
+  SheetLine,
+  DeliveryEvent,
+  PowerPlaySide,
+  LocalIce,
+  LocalIceSampler,
 } from "./physics/types";
 
 export type { TargetEnd } from "./physics/world";
 
 export {
   DEFAULT_ICE_PARAMS,
+  DEFAULT_RULE_OPTIONS,
+  UNIFORM_ICE,
   PHYSICS_DT,
+  DEFAULT_INTEGRATOR_SETTINGS,
   GRAVITY,
   SETTLE_VEL_THRESHOLD,
   SETTLE_OMEGA_THRESHOLD,
   COLLISION_RESTITUTION,
   COLLISION_TANGENTIAL_FRICTION,
+  DEFAULT_BOARD_SETTINGS,
 } from "./physics/types";
 
+// Re-export ice models
+export type { IceModel, IceForces, IceModelKind } from "./physics/ice-model";
+export { EmpiricalIceModel, computeIceForces, sweepScale } from "./physics/ice-model";
+export type { SweepParams } from "./physics/sweeping";
+export { SweepState, DEFAULT_SWEEP_PARAMS } from "./physics/sweeping";
+export { SweepPlanRunner, markReached, DEFAULT_POLICY_INTERVAL } from "./physics/sweep-plan";
+export type { StoneSetData } from "./physics/stone-set";
+export { StoneSet, DEFAULT_STONE_PROPERTIES, stoneMass, stoneRadius } from "./physics/stone-set";
+export type { PivotSlideParams } from "./physics/pivot-slide-model";
+export { PivotSlideIceModel, DEFAULT_PIVOT_SLIDE_PARAMS } from "./physics/pivot-slide-model";
+export type { FrictionAsymmetryParams } from "./physics/friction-asymmetry-model";
+export {
+  FrictionAsymmetryIceModel,
+  DEFAULT_FRICTION_ASYMMETRY_PARAMS,
+} from "./physics/friction-asymmetry-model";
+export type { IceModelSpec } from "./physics/ice-models";
+export type { IceMapData, IceMapPreset, RandomIceMapOptions } from "./physics/ice-map";
+export { IceMap, ICE_MAP_PRESETS, DEFAULT_RANDOM_ICE_MAP_OPTIONS } from "./physics/ice-map";
+export type { IceWearParams, IceWearData } from "./physics/ice-wear";
+export { IceWear, DEFAULT_ICE_WEAR_PARAMS } from "./physics/ice-wear";
+export type { PebbleNoiseParams } from "./physics/pebble-noise";
+export { PebbleNoise, DEFAULT_PEBBLE_NOISE_PARAMS } from "./physics/pebble-noise";
+export type { IceEnvironment, EnvironmentDrift, IceConditionsPreset } from "./physics/ice-environment";
+export {
+  IceConditions,
+  ICE_CONDITIONS_PRESETS,
+  isIceConditionsPreset,
+  DEFAULT_ENVIRONMENT_DRIFT,
+  environmentFactors,
+  environmentIceParams,
+} from "./physics/ice-environment";
+export { createIceModel, iceModelSpec } from "./physics/ice-models";
+
+// Re-export integrators
+export { stepPhysics, stoneForces, allSettled } from "./physics/integrator";
+export {
+  soleMovingStone,
+  clearDistance,
+  fastPathSteps,
+  MAX_FAST_SPAN,
+  MIN_FAST_STEPS,
+} from "./physics/fast-path";
+export type { IntegratorComparison, CompareOptions } from "./physics/integrator-compare";
+export { compareIntegrators, REFERENCE_INTEGRATOR } from "./physics/integrator-compare";
+
+// Re-export execution error
+export type { SkillProfile, SkillLevel } from "./physics/release-error";
+export { ReleaseError, SKILL_PROFILES } from "./physics/release-error";
+export type { RepeatOptions, ShotOutcome, ShotDistribution } from "./physics/shot-repetition";
+export { repeatShot } from "./physics/shot-repetition";
+
+// Re-export calibration
+export type {
+  CalibrationObservation,
+  CalibrationOptions,
+  CalibrationResult,
+  ObservationKind,
+  ObservationResidual,
+  FittedParam,
+  SplitLine,
+} from "./physics/calibration";
+export {
+  calibrateIceParams,
+  predictObservation,
+  CALIBRATION_BOUNDS,
+  DEFAULT_OBSERVATION_SIGMA,
+} from "./physics/calibration";
+
+// Re-export collision detection
+export { resolveCollisions } from "./physics/collisions";
+export type { Box } from "./physics/broadphase";
+export { Broadphase, candidatePairs, BROADPHASE_CELL } from "./physics/broadphase";
+export type {
+  CollisionModel,
+  CollisionModelKind,
+  CollisionModelSpec,
+  ContactState,
+  ContactResponse,
+  ThrowCollisionParams,
+} from "./physics/collision-model";
+export {
+  ImpulseCollisionModel,
+  ThrowCollisionModel,
+  DEFAULT_THROW_COLLISION_PARAMS,
+  createCollisionModel,
+  collisionModelSpec,
+} from "./physics/collision-model";
+
 // Re-export physics world
-export { PhysicsWorld } from "./physics/world";
+export { PhysicsWorld, cloneStone } from "./physics/world";
 
 // Re-export game controller
-export type { GamePhase } from "./game/game-controller";
-export { GameController } from "./game/game-controller";
+export type {
+  GamePhase,
+  GameMode,
+  MatchConfig,
+  LastStoneDrawResult,
+  PlacementChoice,
+  ScoringFormat,
+  SkinOutcome,
+} from "./game/game-controller";
+export { GameController, DEFAULT_MATCH_CONFIG, MIXED_DOUBLES_MATCH } from "./game/game-controller";
 
 // Re-export headless game API
-export type { BoardState, ThrowResult } from "./physics/headless";
+export type { BoardState, ThrowResult, EndResult } from "./physics/headless";
 export { HeadlessGame } from "./physics/headless";
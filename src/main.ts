@@ -4,10 +4,13 @@ import { createIceSheet } from "./scene/ice-sheet";
 import { StoneManager } from "./scene/stones";
 import { createArena } from "./scene/arena";
 import { createLighting } from "./scene/lighting";
-import { GameController } from "./game/game-controller";
+import { GameController, MIXED_DOUBLES_MATCH } from "./game/game-controller";
+import type { MatchConfig } from "./game/game-controller";
 import { InputHandler } from "./game/input-handler";
 import { HUD } from "./game/hud";
 import { TouchControls } from "./game/touch-controls";
+import { IceConditions, isIceConditionsPreset } from "./physics/ice-environment";
+import { PebbleNoise, DEFAULT_PEBBLE_NOISE_PARAMS } from "./physics/pebble-noise";
 import { HACK_Z, TEE_Z, SHEET_WIDTH, SHEET_LENGTH } from "./utils/constants";
 
 // ── Renderer ────────────────────────────────────────────────────────
@@ -57,7 +60,31 @@ const stoneManager = new StoneManager(stonesGroup);
 const isTouchDevice = 'ontouchstart' in window || navigator.maxTouchPoints > 0;
 
 // ── Game + Input + HUD ──────────────────────────────────────────────
-const game = new GameController();
+const params = new URLSearchParams(window.location.search);
+
+// Physical boards from the URL: ?boards=rebound (stones bounce, board contact still out of play)
+// or ?boards=in-play (stones bounce and play on, for practice and arcade games)
+const boards = params.get("boards");
+// Match format from the URL: ?mode=mixed-doubles, ?scoring=skins, and ?lsd to decide
+// first-end hammer by Last Stone Draw
+const match: Partial<MatchConfig> = params.get("mode") === "mixed-doubles" ? { ...MIXED_DOUBLES_MATCH } : {};
+if (params.get("scoring") === "skins") match.scoring = "SKINS";
+if (params.has("lsd")) match.lastStoneDraw = true;
+const game = new GameController({ boardContactOutOfPlay: boards !== "in-play" }, match);
+if (boards === "rebound" || boards === "in-play") game.world.boards.rebound = true;
+
+// Rink conditions from the URL, e.g. ?ice=frosty or ?ice=club-ice
+const icePreset = params.get("ice")?.replace(/[-_]/g, " ");
+if (icePreset && isIceConditionsPreset(icePreset)) {
+  game.world.iceConditions = new IceConditions(icePreset);
+}
+// Random pebble from the URL, e.g. ?pebble=0.02&seed=7 (amplitude; a random seed if omitted).
+// Amplitudes that would turn the curl negative and non-integer seeds are ignored.
+const pebble = Number(params.get("pebble") ?? 0);
+const seed = params.has("seed") ? Number(params.get("seed")) : Math.floor(Math.random() * 2 ** 31);
+if (pebble > 0 && pebble * DEFAULT_PEBBLE_NOISE_PARAMS.curlScale < 1 && Number.isInteger(seed)) {
+  game.world.pebbleNoise = new PebbleNoise({ seed, amplitude: pebble });
+}
 const input = new InputHandler(renderer.domElement, camera, game);
 const hud = new HUD();
 const touchControls = isTouchDevice ? new TouchControls(game, input) : null;
@@ -74,7 +101,7 @@ function updateCamera(): void {
   const hackZ = targetEnd === -1 ? HACK_Z : -HACK_Z;
   const teeZ = targetEnd === -1 ? -TEE_Z : TEE_Z;
 
-  if (game.phase === "AIMING") {
+  if (game.isAiming) {
     const behindHack = targetEnd === -1 ? hackZ + 6 : hackZ - 6;
     desiredPos.set(1.5, 3.5, behindHack);
     desiredTarget.set(0, 0, hackZ + (targetEnd === -1 ? -10 : 10));
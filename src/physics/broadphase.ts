@@ -0,0 +1,99 @@
+/** Axis-aligned box on the ice (m). */
+export interface Box {
+  minX: number;
+  minZ: number;
+  maxX: number;
+  maxZ: number;
+}
+
+/** Grid cell size (m): a couple of stone diameters, well above a step's travel */
+export const BROADPHASE_CELL = 0.6;
+
+/** Cell index offset keeping keys positive for any sheet position */
+const CELL_OFFSET = 1024;
+
+function cellKey(cx: number, cz: number): number {
+  return (cx + CELL_OFFSET) * 2 * CELL_OFFSET + (cz + CELL_OFFSET);
+}
+
+/**
+ * Uniform-grid broadphase that keeps its grid, cell lists and pair list
+ * between calls, so pairing stones every physics step allocates nothing once
+ * warmed up. The pairs returned are reused by the next call.
+ */
+export class Broadphase {
+  readonly cell: number;
+  private readonly grid = new Map<number, number[]>();
+  private readonly usedCells: number[][] = [];
+  private readonly seen = new Set<number>();
+  private readonly pairs: Array<[number, number]> = [];
+  private readonly pairPool: Array<[number, number]> = [];
+
+  constructor(cell = BROADPHASE_CELL) {
+    this.cell = cell;
+  }
+
+  /**
+   * Pairs of boxes (by index, i < j) that share a grid cell and overlap. A null
+   * box takes no part. Valid until the next call.
+   */
+  candidatePairs(boxes: ReadonlyArray<Box | null>): Array<[number, number]> {
+    const pairs = this.pairs;
+    pairs.length = 0;
+    for (const occupants of this.usedCells) occupants.length = 0;
+    this.usedCells.length = 0;
+    this.seen.clear();
+
+    let count = 0;
+    for (const box of boxes) if (box) count++;
+    if (count < 2) return pairs;
+
+    const { grid, seen, cell } = this;
+    const n = boxes.length;
+    let spans = false; // pairs met in an earlier shared cell are skipped once boxes span several cells
+    for (let i = 0; i < n; i++) {
+      const box = boxes[i];
+      if (!box) continue;
+      const x0 = Math.floor(box.minX / cell);
+      const x1 = Math.floor(box.maxX / cell);
+      const z0 = Math.floor(box.minZ / cell);
+      const z1 = Math.floor(box.maxZ / cell);
+      if (x1 > x0 || z1 > z0) spans = true;
+      for (let cx = x0; cx <= x1; cx++) {
+        for (let cz = z0; cz <= z1; cz++) {
+          const key = cellKey(cx, cz);
+          let occupants = grid.get(key);
+          if (!occupants) {
+            occupants = [];
+            grid.set(key, occupants);
+          }
+          if (occupants.length === 0) this.usedCells.push(occupants);
+          for (const j of occupants) {
+            if (spans) {
+              const id = j * n + i;
+              if (seen.has(id)) continue;
+              seen.add(id);
+            }
+            const other = boxes[j]!;
+            if (other.maxX < box.minX || box.maxX < other.minX) continue;
+            if (other.maxZ < box.minZ || box.maxZ < other.minZ) continue;
+            const pair = (this.pairPool[pairs.length] ??= [0, 0]);
+            pair[0] = j;
+            pair[1] = i;
+            pairs.push(pair);
+          }
+          occupants.push(i);
+        }
+      }
+    }
+    return pairs;
+  }
+}
+
+/**
+ * Uniform-grid broadphase: pairs of boxes (by index, i < j) that share a grid
+ * cell and overlap. A null box takes no part. For repeated use, keep a Broadphase.
+ */
+export function candidatePairs(boxes: Array<Box | null>, cell = BROADPHASE_CELL): Array<[number, number]> {
+  return new Broadphase(cell).candidatePairs(boxes);
+}
@@ -0,0 +1,412 @@
+import type { IceParams, ShotRelease, SheetLine, SweepPlan, Vec2 } from "./types";
+import { DEFAULT_ICE_PARAMS } from "./types";
+import { PhysicsWorld } from "./world";
+import { EmpiricalIceModel } from "./ice-model";
+import { HACK_Z, HOG_Z, TEE_Z, BACK_LINE_Z } from "../utils/constants";
+
+/** Lines a split time can start or end at; NEAR_TEE is the tee at the delivering end. */
+export type SplitLine = "NEAR_TEE" | SheetLine;
+
+/**
+ * A measured delivery. Every observation gives the release (position across
+ * the sheet, speed, line and spin) and any sweeping, in the simulator's frame:
+ * released from the hack at +Z toward the far house at -Z. `sigma` is the
+ * measurement's standard deviation; residuals are weighted by 1/sigma.
+ */
+export type CalibrationObservation =
+  | (ObservedDelivery & { kind: "split"; from: SplitLine; to: SplitLine; time: number }) // s between lines
+  | (ObservedDelivery & { kind: "draw"; distance: number }) // m from release to rest, along the sheet
+  | (ObservedDelivery & { kind: "curl"; lateral: number }) // m from the release line at rest, +X positive
+  | (ObservedDelivery & { kind: "trajectory"; points: Array<{ time: number } & Vec2> }); // tracked positions
+
+export type ObservationKind = CalibrationObservation["kind"];
+
+interface ObservedDelivery {
+  release: ShotRelease;
+  sweep?: SweepPlan;
+  sigma?: number;
+}
+
+/** Standard deviation assumed when an observation gives none, in its own units */
+export const DEFAULT_OBSERVATION_SIGMA: Record<ObservationKind, number> = {
+  split: 0.05, // s, hand-held stopwatch
+  draw: 0.15, // m
+  curl: 0.05, // m
+  trajectory: 0.05, // m per coordinate
+};
+
+export type FittedParam = keyof IceParams;
+
+/** Range each parameter is kept within while fitting */
+export const CALIBRATION_BOUNDS: Record<FittedParam, [number, number]> = {
+  mu0: [1e-4, 0.1],
+  muMax: [1e-3, 0.5],
+  curlCoeff: [1e-4, 0.5],
+  kSpin: [1e-7, 1e-2],
+  sweepMuFactor: [0.1, 1],
+  sweepCurlFactor: [0.05, 1],
+};
+
+export interface CalibrationOptions {
+  /** Starting parameters (default DEFAULT_ICE_PARAMS) */
+  initial?: Partial<IceParams>;
+  /** Parameters to fit; the rest stay at their initial values (default: all) */
+  fit?: FittedParam[];
+  maxIterations?: number; // default 30
+  /** Stop once an iteration lowers the cost by less than this fraction */
+  tolerance?: number; // default 1e-6
+  /** Called after each accepted iteration */
+  onIteration?: (iteration: number, params: IceParams, chiSquare: number) => void;
+}
+
+export interface ObservationResidual {
+  index: number;
+  kind: ObservationKind;
+  /** Measured values (one, or x and z for each trajectory point) */
+  observed: number[];
+  predicted: number[];
+  /** Root-mean-square of predicted − observed, in the observation's units */
+  rms: number;
+}
+
+export interface CalibrationResult {
+  params: IceParams;
+  initial: IceParams;
+  /** Parameters fitted; parameters the observations do not constrain are left out */
+  fitted: FittedParam[];
+  /** Requested parameters the observations barely affect, kept at their initial values */
+  unconstrained: FittedParam[];
+  /** Fitted parameters that ended at a calibration bound; they have no standard error */
+  atBound: FittedParam[];
+  /** One-sigma uncertainty of each fitted parameter within its bounds, from the curvature at the optimum */
+  standardErrors: Partial<Record<FittedParam, number>>;
+  residuals: ObservationResidual[];
+  /** Sum of squared weighted residuals */
+  chiSquare: number;
+  degreesOfFreedom: number;
+  /** chiSquare per degree of freedom: about 1 when the model fits to within the stated sigmas */
+  reducedChiSquare: number;
+  /** Root-mean-square residual per observation kind, in its units */
+  rmsByKind: Partial<Record<ObservationKind, number>>;
+  iterations: number;
+  /** Deliveries simulated */
+  evaluations: number;
+  converged: boolean;
+}
+
+/** Forward-difference step on log parameters */
+const JACOBIAN_STEP = 1e-3;
+/**
+ * A parameter whose column of the weighted Jacobian is this small is not
+ * constrained: doubling it moves the observations by under 1% of their sigmas.
+ */
+const SENSITIVITY_FLOOR = 0.01;
+/** Speed (m/s) at which a line a stone stops short of counts as reached, after it stops */
+const SHORTFALL_SPEED = 0.1;
+const MAX_STEPS = 200_000;
+
+/** One simulated delivery: the delivered stone's path, one point per physics step. */
+interface SimulatedPath {
+  t: number[];
+  x: number[];
+  z: number[];
+}
+
+function simulate(params: IceParams, obs: CalibrationObservation): SimulatedPath {
+  const world = new PhysicsWorld(new EmpiricalIceModel(params));
+  world.deliverStone("red", obs.release, 0);
+  if (obs.sweep) world.followSweepPlan(obs.sweep);
+  const stone = world.getDeliveredStone()!;
+  const dt = world.integrator.dt;
+  const path: SimulatedPath = { t: [0], x: [stone.pos.x], z: [stone.pos.z] };
+  for (let step = 1; step <= MAX_STEPS; step++) {
+    const moving = world.update(dt);
+    path.t.push(step * dt);
+    path.x.push(stone.pos.x);
+    path.z.push(stone.pos.z);
+    if (!moving) break;
+  }
+  return path;
+}
+
+/** Z of a line, playing toward the -Z house as the calibration deliveries do. */
+function lineZ(line: SplitLine): number {
+  switch (line) {
+    case "NEAR_TEE":
+      return TEE_Z;
+    case "NEAR_HOG":
+      return HOG_Z;
+    case "FAR_HOG":
+      return -HOG_Z;
+    case "TEE":
+      return -TEE_Z;
+    case "BACK":
+      return -BACK_LINE_Z;
+  }
+}
+
+/** When the stone centre first reaches `z` (interpolated between steps); past the stop if it falls short. */
+function crossingTime(path: SimulatedPath, z: number): number {
+  const n = path.t.length;
+  for (let k = 1; k < n; k++) {
+    if (path.z[k - 1] > z && path.z[k] <= z) {
+      const f = (path.z[k - 1] - z) / (path.z[k - 1] - path.z[k]);
+      return path.t[k - 1] + f * (path.t[k] - path.t[k - 1]);
+    }
+  }
+  return path.t[n - 1] + Math.abs(path.z[n - 1] - z) / SHORTFALL_SPEED;
+}
+
+/** Position at time `t` (interpolated); the resting position after the stone stops. */
+function positionAt(path: SimulatedPath, t: number): Vec2 {
+  const n = path.t.length;
+  if (t >= path.t[n - 1]) return { x: path.x[n - 1], z: path.z[n - 1] };
+  const dt = path.t[1] - path.t[0];
+  const k = Math.max(0, Math.min(n - 2, Math.floor(t / dt)));
+  const f = (t - path.t[k]) / (path.t[k + 1] - path.t[k]);
+  return { x: path.x[k] + f * (path.x[k + 1] - path.x[k]), z: path.z[k] + f * (path.z[k + 1] - path.z[k]) };
+}
+
+/**
+ * What the simulator predicts for an observation with the given parameters:
+ * the split time, draw distance or lateral curl, or x and z for each tracked point.
+ */
+export function predictObservation(params: IceParams, obs: CalibrationObservation): number[] {
+  const path = simulate(params, obs);
+  const last = path.t.length - 1;
+  const rest = { x: path.x[last], z: path.z[last] };
+  const start = { x: obs.release.x, z: HACK_Z };
+  switch (obs.kind) {
+    case "split":
+      return [crossingTime(path, lineZ(obs.to)) - crossingTime(path, lineZ(obs.from))];
+    case "draw":
+      return [start.z - rest.z];
+    case "curl": {
+      // Distance from the line of release, +X positive
+      const { angle } = obs.release;
+      return [(rest.x - start.x) * Math.cos(angle) + (rest.z - start.z) * Math.sin(angle)];
+    }
+    case "trajectory":
+      return obs.points.flatMap((p) => {
+        const at = positionAt(path, p.time);
+        return [at.x, at.z];
+      });
+  }
+}
+
+function observedValues(obs: CalibrationObservation): number[] {
+  switch (obs.kind) {
+    case "split":
+      return [obs.time];
+    case "draw":
+      return [obs.distance];
+    case "curl":
+      return [obs.lateral];
+    case "trajectory":
+      return obs.points.flatMap((p) => [p.x, p.z]);
+  }
+}
+
+/**
+ * Fit ice parameters of the empirical model to measured deliveries by
+ * nonlinear least squares (Levenberg–Marquardt on log parameters, with
+ * finite-difference Jacobians). Every residual comes from replaying the
+ * delivery in a PhysicsWorld. Returns the fitted parameters with their
+ * uncertainties, the residual of every observation and the goodness of fit.
+ */
+export function calibrateIceParams(
+  observations: CalibrationObservation[],
+  options: CalibrationOptions = {}
+): CalibrationResult {
+  if (observations.length === 0) throw new Error("Calibration needs at least one observation");
+  const initial: IceParams = { ...DEFAULT_ICE_PARAMS, ...options.initial };
+  const requested = options.fit ?? (Object.keys(CALIBRATION_BOUNDS) as FittedParam[]);
+  const maxIterations = options.maxIterations ?? 30;
+  const tolerance = options.tolerance ?? 1e-6;
+
+  const observed = observations.map(observedValues);
+  const sigmas = observations.map((o) => o.sigma ?? DEFAULT_OBSERVATION_SIGMA[o.kind]);
+  let evaluations = 0;
+
+  const paramsAt = (names: FittedParam[], theta: number[]): IceParams => {
+    const params = { ...initial };
+    names.forEach((name, i) => {
+      params[name] = Math.exp(theta[i]);
+    });
+    return params;
+  };
+  const weighted = (params: IceParams): number[] =>
+    observations.flatMap((obs, i) => {
+      evaluations++;
+      return predictObservation(params, obs).map((p, k) => (p - observed[i][k]) / sigmas[i]);
+    });
+  const jacobian = (names: FittedParam[], theta: number[], r: number[]): number[][] =>
+    names.map((_, j) => {
+      const shifted = [...theta];
+      shifted[j] += JACOBIAN_STEP;
+      return weighted(paramsAt(names, shifted)).map((v, k) => (v - r[k]) / JACOBIAN_STEP);
+    }); // one column per parameter
+
+  const outside = requested.filter((name) => {
+    const [lo, hi] = CALIBRATION_BOUNDS[name];
+    return !(initial[name] >= lo && initial[name] <= hi);
+  });
+  if (outside.length > 0) throw new Error(`Initial ${outside.join(", ")} outside the calibration bounds`);
+
+  // Leave out parameters the observations do not respond to (e.g. sweep factors without sweeping)
+  let names = [...requested];
+  let theta = names.map((name) => Math.log(initial[name]));
+  let r = weighted(initial);
+  let columns = jacobian(names, theta, r);
+  const constrained = columns.map((col) => Math.sqrt(dot(col, col)) > SENSITIVITY_FLOOR);
+  const unconstrained = names.filter((_, j) => !constrained[j]);
+  names = names.filter((_, j) => constrained[j]);
+  theta = theta.filter((_, j) => constrained[j]);
+  columns = columns.filter((_, j) => constrained[j]);
+
+  let cost = dot(r, r);
+  let lambda = 1e-3;
+  let iterations = 0;
+  let converged = names.length === 0;
+
+  while (!converged && iterations < maxIterations) {
+    iterations++;
+    const { a, g } = normalEquations(columns, r);
+    let accepted = false;
+    while (lambda < 1e10) {
+      const damped = a.map((row, i) => row.map((v, j) => (i === j ? v * (1 + lambda) + 1e-12 : v)));
+      const delta = solve(damped, g.map((v) => -v));
+      const next = theta.map((t, i) => clampLog(names[i], t + delta[i]));
+      const rNext = weighted(paramsAt(names, next));
+      const costNext = dot(rNext, rNext);
+      if (costNext < cost) {
+        const improvement = (cost - costNext) / cost;
+        theta = next;
+        r = rNext;
+        cost = costNext;
+        lambda = Math.max(lambda / 3, 1e-9);
+        accepted = true;
+        converged = improvement < tolerance || Math.max(...delta.map(Math.abs)) < 1e-6;
+        break;
+      }
+      lambda *= 4;
+    }
+    if (!accepted) {
+      converged = true; // no step lowers the cost: at a minimum to within the finite differences
+      break;
+    }
+    options.onIteration?.(iterations, paramsAt(names, theta), cost);
+    if (!converged) columns = jacobian(names, theta, r);
+  }
+
+  const params = paramsAt(names, theta);
+  const predicted = observations.map((obs) => predictObservation(params, obs));
+  evaluations += observations.length;
+
+  const residuals: ObservationResidual[] = observations.map((obs, i) => {
+    const diff = predicted[i].map((p, k) => p - observed[i][k]);
+    return {
+      index: i,
+      kind: obs.kind,
+      observed: observed[i],
+      predicted: predicted[i],
+      rms: Math.sqrt(dot(diff, diff) / diff.length),
+    };
+  });
+
+  const rmsByKind: Partial<Record<ObservationKind, number>> = {};
+  for (const kind of Object.keys(DEFAULT_OBSERVATION_SIGMA) as ObservationKind[]) {
+    const ofKind = residuals.filter((res) => res.kind === kind);
+    if (ofKind.length === 0) continue;
+    const squares = ofKind.flatMap((res) => res.predicted.map((p, k) => (p - res.observed[k]) ** 2));
+    rmsByKind[kind] = Math.sqrt(squares.reduce((s, v) => s + v, 0) / squares.length);
+  }
+
+  // Parameter covariance from the curvature at the optimum, scaled by the fit quality
+  const degreesOfFreedom = r.length - names.length;
+  const reducedChiSquare = degreesOfFreedom > 0 ? cost / degreesOfFreedom : NaN;
+  const standardErrors: Partial<Record<FittedParam, number>> = {};
+  // A parameter held at a bound is not at a minimum of the cost: leave it out of the curvature
+  const atBound = names.filter((name, i) => onBound(name, theta[i]));
+  const free = names.filter((name) => !atBound.includes(name));
+  if (free.length > 0) {
+    const finalColumns = jacobian(names, theta, r).filter((_, j) => !atBound.includes(names[j]));
+    const covariance = invert(normalEquations(finalColumns, r).a);
+    const scale = degreesOfFreedom > 0 ? Math.max(reducedChiSquare, 1) : 1;
+    free.forEach((name, i) => {
+      // Log-space error times the value: the error of the parameter itself
+      standardErrors[name] = params[name] * Math.sqrt(Math.max(0, covariance[i][i]) * scale);
+    });
+  }
+
+  return {
+    params,
+    initial,
+    fitted: names,
+    unconstrained,
+    atBound,
+    standardErrors,
+    residuals,
+    chiSquare: cost,
+    degreesOfFreedom,
+    reducedChiSquare,
+    rmsByKind,
+    iterations,
+    evaluations,
+    converged,
+  };
+}
+
+function clampLog(name: FittedParam, theta: number): number {
+  const [lo, hi] = CALIBRATION_BOUNDS[name];
+  return Math.max(Math.log(lo), Math.min(Math.log(hi), theta));
+}
+
+/** Whether a log parameter sits at either calibration bound. */
+function onBound(name: FittedParam, theta: number): boolean {
+  const [lo, hi] = CALIBRATION_BOUNDS[name];
+  return Math.abs(theta - Math.log(lo)) < 1e-9 || Math.abs(theta - Math.log(hi)) < 1e-9;
+}
+
+function dot(a: number[], b: number[]): number {
+  let s = 0;
+  for (let i = 0; i < a.length; i++) s += a[i] * b[i];
+  return s;
+}
+
+/** JᵀJ and Jᵀr for a Jacobian given by columns. */
+function normalEquations(columns: number[][], r: number[]): { a: number[][]; g: number[] } {
+  return {
+    a: columns.map((ci) => columns.map((cj) => dot(ci, cj))),
+    g: columns.map((c) => dot(c, r)),
+  };
+}
+
+/** Solve a small dense system by Gaussian elimination with partial pivoting. */
+function solve(a: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    const p = m[col][col] || 1e-300;
+    for (let row = col + 1; row < n; row++) {
+      const f = m[row][col] / p;
+      for (let k = col; k <= n; k++) m[row][k] -= f * m[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let s = m[row][n];
+    for (let k = row + 1; k < n; k++) s -= m[row][k] * x[k];
+    x[row] = s / (m[row][row] || 1e-300);
+  }
+  return x;
+}
+
+function invert(a: number[][]): number[][] {
+  const n = a.length;
+  const columns = a.map((_, j) => solve(a, a.map((__, i) => (i === j ? 1 : 0))));
+  return Array.from({ length: n }, (_, i) => columns.map((col) => col[i]));
+}
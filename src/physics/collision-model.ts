@@ -0,0 +1,134 @@
+import { COLLISION_RESTITUTION, COLLISION_TANGENTIAL_FRICTION } from "./types";
+
+export type CollisionModelKind = "impulse" | "throw";
+
+/** Two touching stones at the moment of impact, in the frame of their line of centres. */
+export interface ContactState {
+  approach: number; // closing speed along the line of centres (m/s, > 0)
+  slip: number; // sliding speed of the surfaces across the line of centres, spin included (m/s)
+  invMass: number; // 1/ma + 1/mb
+  invMassTangent: number; // inverse effective mass for sliding, with both stones' rotational inertia
+}
+
+/** What a collision model makes of a contact. */
+export interface ContactResponse {
+  normal: number; // impulse along the line of centres (N·s, ≥ 0)
+  tangent: number; // impulse across it, opposing the slip (N·s)
+  duration: number; // time the stones stay in contact (s); 0 = instantaneous
+}
+
+/** A theory of how two stones exchange momentum when they strike. */
+export interface CollisionModel {
+  readonly kind: CollisionModelKind;
+  respond(contact: ContactState): ContactResponse;
+  /** Independent copy with the same parameters */
+  clone(): CollisionModel;
+}
+
+/**
+ * The original model: fixed restitution and a tangential impulse clamped by a
+ * fixed friction coefficient.
+ */
+export class ImpulseCollisionModel implements CollisionModel {
+  readonly kind = "impulse";
+
+  respond({ approach, slip, invMass }: ContactState): ContactResponse {
+    const normal = ((1 + COLLISION_RESTITUTION) * approach) / invMass;
+    const limit = normal * COLLISION_TANGENTIAL_FRICTION;
+    const tangent = Math.max(-limit, Math.min(limit, -slip / invMass));
+    return { normal, tangent, duration: 0 };
+  }
+
+  clone(): ImpulseCollisionModel {
+    return new ImpulseCollisionModel();
+  }
+}
+
+export interface ThrowCollisionParams {
+  restitutionSlow: number; // coefficient of restitution for a gentle tap
+  restitutionFast: number; // coefficient of restitution approached by hard hits
+  restitutionSpeed: number; // closing speed (m/s) over which restitution falls from slow toward fast
+  frictionStick: number; // granite-on-granite friction at low sliding speed
+  frictionSlide: number; // friction approached at high sliding speed
+  frictionSpeed: number; // sliding speed (m/s) over which friction falls from stick toward slide
+  contactTime: number; // contact duration (s) at a 1 m/s closing speed
+  contactExponent: number; // contact duration ∝ closing speed^-exponent (Hertz: 1/5)
+}
+
+export const DEFAULT_THROW_COLLISION_PARAMS: ThrowCollisionParams = {
+  restitutionSlow: 0.93,
+  restitutionFast: 0.8,
+  restitutionSpeed: 1.5,
+  frictionStick: 0.22,
+  frictionSlide: 0.08,
+  frictionSpeed: 0.6,
+  contactTime: 0.0008,
+  contactExponent: 0.2,
+};
+
+/**
+ * Collision-induced throw. Restitution drops with impact speed, and friction
+ * between the striking bands drops with the sliding speed, which includes both
+ * stones' spin. The struck stone is thrown a few degrees off the line of
+ * centres, by an angle set by the cut and the rotation. Friction never does
+ * more than stop the sliding, so the collision cannot add energy. Contact
+ * lasts about a millisecond, shorter for harder hits, as for Hertzian contact.
+ */
+export class ThrowCollisionModel implements CollisionModel {
+  readonly kind = "throw";
+  params: ThrowCollisionParams;
+
+  constructor(params?: Partial<ThrowCollisionParams>) {
+    this.params = { ...DEFAULT_THROW_COLLISION_PARAMS, ...params };
+  }
+
+  /** Coefficient of restitution at a closing speed (m/s). */
+  restitution(approach: number): number {
+    const { restitutionSlow, restitutionFast, restitutionSpeed } = this.params;
+    return restitutionFast + (restitutionSlow - restitutionFast) * Math.exp(-approach / restitutionSpeed);
+  }
+
+  /** Friction coefficient between the striking bands at a sliding speed (m/s). */
+  friction(slip: number): number {
+    const { frictionStick, frictionSlide, frictionSpeed } = this.params;
+    return frictionSlide + (frictionStick - frictionSlide) * Math.exp(-Math.abs(slip) / frictionSpeed);
+  }
+
+  /** Contact duration (s) at a closing speed (m/s). */
+  contactDuration(approach: number): number {
+    return this.params.contactTime * Math.pow(Math.max(approach, 1e-3), -this.params.contactExponent);
+  }
+
+  respond({ approach, slip, invMass, invMassTangent }: ContactState): ContactResponse {
+    const normal = ((1 + this.restitution(approach)) * approach) / invMass;
+    const limit = normal * this.friction(slip);
+    // Enough to stop the sliding and no more
+    const stick = -slip / invMassTangent;
+    const tangent = Math.max(-limit, Math.min(limit, stick));
+    return { normal, tangent, duration: this.contactDuration(approach) };
+  }
+
+  clone(): ThrowCollisionModel {
+    return new ThrowCollisionModel(this.params);
+  }
+}
+
+/** Serializable description of a collision model and its parameters. */
+export type CollisionModelSpec = { kind: "impulse" } | { kind: "throw"; params?: Partial<ThrowCollisionParams> };
+
+/** Build a collision model from its spec. */
+export function createCollisionModel(spec: CollisionModelSpec): CollisionModel {
+  switch (spec.kind) {
+    case "impulse":
+      return new ImpulseCollisionModel();
+    case "throw":
+      return new ThrowCollisionModel(spec.params);
+  }
+}
+
+/** Describe a collision model as a spec (inverse of createCollisionModel). */
+export function collisionModelSpec(model: CollisionModel): CollisionModelSpec {
+  if (model instanceof ThrowCollisionModel) return { kind: "throw", params: { ...model.params } };
+  if (model instanceof ImpulseCollisionModel) return { kind: "impulse" };
+  throw new Error(`Unknown collision model: ${model.kind}`);
+}
@@ -1,42 +1,333 @@
-import type { StoneState } from "./types";
-import { COLLISION_RESTITUTION, COLLISION_TANGENTIAL_FRICTION } from "./types";
-import { STONE_RADIUS, STONE_MASS, SHEET_WIDTH } from "../utils/constants";
+import type { StoneState, StepEvents, StepMotion, StoneContact, Vec2, BoardSettings, BoardHit } from "./types";
+import { DEFAULT_BOARD_SETTINGS } from "./types";
+import { SIDE_BOARD_X, BUMPER_Z } from "../utils/constants";
+import { stoneMass, stoneRadius } from "./stone-set";
+import type { Box } from "./broadphase";
+import { Broadphase } from "./broadphase";
+import type { CollisionModel } from "./collision-model";
+import { ImpulseCollisionModel } from "./collision-model";
 
-const CONTACT_DIST = STONE_RADIUS * 2;
 const POSITIONAL_SLOP = 0.001;
 const POSITIONAL_CORRECTION_FACTOR = 0.8;
+/** Gap (m) under which two stones count as touching when an impact is solved */
+const CONTACT_SLOP = 1e-4;
+/** Most impacts located and solved at their moment of contact within one step */
+const MAX_IMPACTS_PER_STEP = 8;
+/** Most solver passes over the touching stones at one impact */
+const MAX_SOLVER_PASSES = 32;
+/** Approach speed (m/s) under which touching stones are left alone */
+const APPROACH_EPSILON = 1e-6;
+
+type Impact = { impulse: number; point: Vec2; duration: number };
+
+const DEFAULT_COLLISION_MODEL = new ImpulseCollisionModel();
+
+/** Grids and boxes reused from step to step: one for the stones' paths, one for stones touching at an impact */
+const pathGrid = new Broadphase();
+const contactGrid = new Broadphase();
+const boxPool: Box[] = [];
+const boxes: Array<Box | null> = [];
+const moving: boolean[] = [];
+const nearby: Array<[number, number]> = [];
+const pairPool: Array<[number, number]> = [];
 
 /**
- * Detect and resolve all stone-stone and stone-wall collisions.
- * Modifies stones in place.
+ * Detect and resolve all stone-stone and stone-board collisions.
+ * Given the step's `motion`, stones that met during the step are taken back to
+ * the moment they first touched (moving in straight lines within the step), the
+ * impact is solved there and the rest of the step replayed, for each impact in
+ * turn. Overlaps left after that are resolved as they stand. Only pairs with
+ * a moving stone are checked: stones at rest were pushed apart as they came to
+ * rest. Each impact's impulses come from `model`.
+ * With rebounding `boards`, stones bounce off the side and end boards;
+ * otherwise a stone reaching the side-board line is removed.
+ * Modifies stones in place. Returns the impacts resolved, the board hits and the stones removed.
  */
-export function resolveCollisions(stones: StoneState[]): void {
-  const active = stones.filter((s) => s.inPlay);
+export function resolveCollisions(
+  stones: StoneState[],
+  motion?: StepMotion,
+  model: CollisionModel = DEFAULT_COLLISION_MODEL,
+  boards: BoardSettings = DEFAULT_BOARD_SETTINGS
+): StepEvents {
+  const contacts = new Map<number, StoneContact>();
+
+  // Pairs whose paths came near each other cover every pair that can overlap now, unless an impact changed a path
+  let pairs = motion ? resolveImpacts(stones, motion, model, contacts) : null;
+  if (!pairs) pairs = movingPairs(stones, null, null);
+
+  // Stone-stone overlaps
+  for (const [i, j] of pairs) {
+    const impact = resolveStoneStone(stones[i], stones[j], model);
+    if (impact) addContact(contacts, stones.length, i, j, impact);
+  }
+
+  const events: StepEvents = { contacts: [...contacts.values()], removals: [], boardHits: [] };
+
+  // Stone-board collisions
+  for (let i = 0; i < stones.length; i++) {
+    if (!stones[i].inPlay) continue;
+    if (boards.rebound) {
+      for (const hit of reboundBoards(stones[i], boards)) events.boardHits.push({ index: i, ...hit });
+    } else if (resolveWall(stones[i], SIDE_BOARD_X)) {
+      events.removals.push({ index: i, reason: "SIDE_BOARD" });
+    }
+  }
+
+  return events;
+}
+
+/** The i-th pooled box, set to cover a stone of radius `r` moving from `from` to `to`. */
+function boxAround(i: number, from: Vec2, to: Vec2, r: number): Box {
+  const box = (boxPool[i] ??= { minX: 0, minZ: 0, maxX: 0, maxZ: 0 });
+  box.minX = Math.min(from.x, to.x) - r;
+  box.minZ = Math.min(from.z, to.z) - r;
+  box.maxX = Math.max(from.x, to.x) + r;
+  box.maxZ = Math.max(from.z, to.z) + r;
+  return box;
+}
+
+function boxesOverlap(a: Box, b: Box): boolean {
+  return a.minX <= b.maxX && b.minX <= a.maxX && a.minZ <= b.maxZ && b.minZ <= a.maxZ;
+}
+
+/**
+ * Pairs of in-play stones, at least one of them moving, whose paths from
+ * `from` to `to` (default: where they are) come within touching distance, in
+ * index order. With no stone moving there are none; a lone moving stone is
+ * tested against each other stone directly, several go through the grid.
+ * Valid until the next call.
+ */
+function movingPairs(stones: StoneState[], from: Vec2[] | null, to: Vec2[] | null): Array<[number, number]> {
+  const n = stones.length;
+  if (moving.length !== n) moving.length = boxes.length = n;
+  if (nearby.length > 0) nearby.length = 0;
+  let movers = 0;
+  let mover = -1;
+  for (let i = 0; i < n; i++) {
+    const s = stones[i];
+    const a = from ? from[i] : s.pos;
+    const b = to ? to[i] : s.pos;
+    moving[i] = s.inPlay && (a.x !== b.x || a.z !== b.z || s.vel.x !== 0 || s.vel.z !== 0);
+    if (moving[i]) {
+      movers++;
+      mover = i;
+    }
+  }
+  if (movers === 0) return nearby;
+
+  for (let i = 0; i < n; i++) {
+    const s = stones[i];
+    boxes[i] = s.inPlay ? boxAround(i, from ? from[i] : s.pos, to ? to[i] : s.pos, stoneRadius(s)) : null;
+  }
+  if (movers === 1) {
+    const box = boxes[mover]!;
+    for (let j = 0; j < n; j++) {
+      const other = boxes[j];
+      if (j !== mover && other && boxesOverlap(box, other)) addPair(Math.min(j, mover), Math.max(j, mover));
+    }
+    return nearby;
+  }
+  for (const [i, j] of pathGrid.candidatePairs(boxes)) {
+    if (moving[i] || moving[j]) addPair(i, j);
+  }
+  return sortPairs(nearby);
+}
+
+function addPair(i: number, j: number): void {
+  const pair = (pairPool[nearby.length] ??= [0, 0]);
+  pair[0] = i;
+  pair[1] = j;
+  nearby.push(pair);
+}
+
+/** Pairs in index order, so results do not depend on the grid's layout. */
+function sortPairs(pairs: Array<[number, number]>): Array<[number, number]> {
+  return pairs.sort((p, q) => p[0] - q[0] || p[1] - q[1]);
+}
+
+/** One contact event per pair and step, with the impulses summed. */
+function addContact(contacts: Map<number, StoneContact>, n: number, a: number, b: number, impact: Impact): void {
+  const key = a * n + b;
+  const existing = contacts.get(key);
+  if (existing) {
+    existing.impulse += impact.impulse;
+    existing.point = impact.point;
+    existing.duration = Math.max(existing.duration, impact.duration);
+  } else {
+    contacts.set(key, { a, b, ...impact });
+  }
+}
+
+/**
+ * Time-of-impact pass: find the first contact along the stones' straight paths
+ * from `motion.start` to where they are now, solve it at that moment, and
+ * replay the rest of the step with the new velocities. Returns the broadphase
+ * pairs of the paths if there was no impact, null otherwise.
+ */
+function resolveImpacts(
+  stones: StoneState[],
+  motion: StepMotion,
+  model: CollisionModel,
+  contacts: Map<number, StoneContact>
+): Array<[number, number]> | null {
+  let from: Vec2[] = motion.start;
+  let to: Vec2[] | null = null; // the stones' own positions until an impact rewinds them
+  let remaining = motion.dt;
+
+  for (let k = 0; k < MAX_IMPACTS_PER_STEP; k++) {
+    const pairs = movingPairs(stones, from, to);
+    if (pairs.length === 0 && k === 0) return pairs;
+    const ends: Vec2[] = to ?? stones.map((s) => s.pos);
+    const hit = pairs.length > 0 ? firstImpact(stones, from, ends, pairs) : null;
+    if (!hit) {
+      if (k === 0) return pairs;
+      break;
+    }
+    // Detach the end positions from the stones before rewinding them
+    const path: Vec2[] = to ?? ends.map((p) => ({ x: p.x, z: p.z }));
+    if (!to) from = from.map((p) => ({ x: p.x, z: p.z }));
+    to = path;
+
+    for (let i = 0; i < stones.length; i++) {
+      if (!stones[i].inPlay) continue;
+      stones[i].pos.x = from[i].x + (path[i].x - from[i].x) * hit.t;
+      stones[i].pos.z = from[i].z + (path[i].z - from[i].z) * hit.t;
+    }
+    const changed = solveContacts(stones, hit.a, hit.b, model, contacts);
 
-  // Stone-stone collisions
-  for (let i = 0; i < active.length; i++) {
-    for (let j = i + 1; j < active.length; j++) {
-      resolveStoneStone(active[i], active[j]);
+    remaining *= 1 - hit.t;
+    for (let i = 0; i < stones.length; i++) {
+      const s = stones[i];
+      from[i] = { x: s.pos.x, z: s.pos.z };
+      if (changed.has(i)) path[i] = { x: s.pos.x + s.vel.x * remaining, z: s.pos.z + s.vel.z * remaining };
     }
   }
 
-  // Stone-wall collisions (side boards)
-  const halfW = SHEET_WIDTH / 2;
-  for (const s of active) {
-    resolveWall(s, halfW);
+  const end = to!;
+  for (let i = 0; i < stones.length; i++) {
+    if (!stones[i].inPlay) continue;
+    stones[i].pos.x = end[i].x;
+    stones[i].pos.z = end[i].z;
   }
+  return null;
 }
 
-function resolveStoneStone(a: StoneState, b: StoneState): void {
+/**
+ * Earliest first contact among `pairs` of stones moving in straight lines from
+ * `from` to `to`, as a fraction `t` of the way. Pairs already touching at `from` are skipped.
+ */
+function firstImpact(
+  stones: StoneState[],
+  from: Vec2[],
+  to: Vec2[],
+  pairs: Array<[number, number]>
+): { a: number; b: number; t: number } | null {
+  let first: { a: number; b: number; t: number } | null = null;
+
+  for (const [a, b] of pairs) {
+    const r = stoneRadius(stones[a]) + stoneRadius(stones[b]);
+    const dx = from[b].x - from[a].x;
+    const dz = from[b].z - from[a].z;
+    const ux = to[b].x - from[b].x - (to[a].x - from[a].x);
+    const uz = to[b].z - from[b].z - (to[a].z - from[a].z);
+
+    // |d + u t| = r
+    const qa = ux * ux + uz * uz;
+    const qb = 2 * (dx * ux + dz * uz);
+    const qc = dx * dx + dz * dz - r * r;
+    if (qc <= 0 || qa < 1e-18 || qb >= 0) continue;
+    const disc = qb * qb - 4 * qa * qc;
+    if (disc < 0) continue;
+    const t = (-qb - Math.sqrt(disc)) / (2 * qa);
+    if (t >= 0 && t <= 1 && (!first || t < first.t)) first = { a, b, t };
+  }
+  return first;
+}
+
+/**
+ * Sequential impulses over the stones touching at an impact, starting with the
+ * struck pair: each approaching contact gets a restitution impulse in turn,
+ * pass after pass, until nothing is approaching. A stone driven into a frozen
+ * pair passes its momentum on through the pair the same way at any step size.
+ * Returns the stones whose velocity changed.
+ */
+function solveContacts(
+  stones: StoneState[],
+  a: number,
+  b: number,
+  model: CollisionModel,
+  contacts: Map<number, StoneContact>
+): Set<number> {
+  const around = stones.map((s) => {
+    const r = stoneRadius(s) + CONTACT_SLOP;
+    return s.inPlay ? { minX: s.pos.x - r, minZ: s.pos.z - r, maxX: s.pos.x + r, maxZ: s.pos.z + r } : null;
+  });
+  const touching = sortPairs([...contactGrid.candidatePairs(around)]).filter(
+    ([i, j]) => (i !== a || j !== b) && gap(stones[i], stones[j]) < CONTACT_SLOP
+  );
+  touching.unshift([a, b]);
+
+  const changed = new Set<number>();
+  for (let pass = 0; pass < MAX_SOLVER_PASSES; pass++) {
+    let applied = false;
+    for (const [i, j] of touching) {
+      const impact = applyImpulse(stones[i], stones[j], model);
+      if (!impact) continue;
+      addContact(contacts, stones.length, i, j, impact);
+      changed.add(i);
+      changed.add(j);
+      applied = true;
+    }
+    if (!applied) break;
+  }
+  return changed;
+}
+
+function gap(a: StoneState, b: StoneState): number {
+  return Math.hypot(b.pos.x - a.pos.x, b.pos.z - a.pos.z) - stoneRadius(a) - stoneRadius(b);
+}
+
+/** Resolve an overlapping pair. Returns the impulse and contact point if an impulse was applied. */
+function resolveStoneStone(a: StoneState, b: StoneState, model: CollisionModel): Impact | null {
   const dx = b.pos.x - a.pos.x;
   const dz = b.pos.z - a.pos.z;
   const dist = Math.sqrt(dx * dx + dz * dz);
+  const contactDist = stoneRadius(a) + stoneRadius(b);
 
-  if (dist >= CONTACT_DIST || dist < 1e-8) return;
+  if (dist >= contactDist || dist < 1e-8) return null;
 
-  // Contact normal (a -> b)
+  // Only resolve if stones are approaching; overlap is corrected either way
+  const impact = applyImpulse(a, b, model);
+  positionalCorrection(a, b, contactDist - dist, dx / dist, dz / dist);
+  return impact;
+}
+
+/**
+ * Collision impulse between two touching stones, if they are approaching, as
+ * the collision model gives it: along the line of centres and across it, which
+ * also transfers spin. Returns the impulse, contact point and contact duration.
+ */
+function applyImpulse(a: StoneState, b: StoneState, model: CollisionModel): Impact | null {
+  const dx = b.pos.x - a.pos.x;
+  const dz = b.pos.z - a.pos.z;
+  const dist = Math.sqrt(dx * dx + dz * dz);
+  if (dist < 1e-8) return null;
+  const ra = stoneRadius(a);
+  const rb = stoneRadius(b);
+  const contactDist = ra + rb;
+
+  const ma = stoneMass(a);
+  const mb = stoneMass(b);
+  const invMassSum = 1 / ma + 1 / mb;
+  // Moment of inertia of a solid disk
+  const Ia = 0.5 * ma * ra * ra;
+  const Ib = 0.5 * mb * rb * rb;
+
+  // Contact normal (a -> b) and tangent
   const nx = dx / dist;
   const nz = dz / dist;
+  const tx = -nz;
+  const tz = nx;
 
   // Relative velocity of b w.r.t. a
   const dvx = b.vel.x - a.vel.x;
@@ -44,69 +335,86 @@ function resolveStoneStone(a: StoneState, b: StoneState): void {
 
   // Relative velocity along normal
   const relVelNormal = dvx * nx + dvz * nz;
+  if (relVelNormal > -APPROACH_EPSILON) return null;
 
-  // Only resolve if stones are approaching
-  if (relVelNormal > 0) {
-    // Still do positional correction if overlapping
-    positionalCorrection(a, b, dist, nx, nz);
-    return;
-  }
-
-  // Normal impulse (equal mass simplifies things)
-  const e = COLLISION_RESTITUTION;
-  const jNormal = (-(1 + e) * relVelNormal) / (1 / STONE_MASS + 1 / STONE_MASS);
-
-  a.vel.x -= (jNormal / STONE_MASS) * nx;
-  a.vel.z -= (jNormal / STONE_MASS) * nz;
-  b.vel.x += (jNormal / STONE_MASS) * nx;
-  b.vel.z += (jNormal / STONE_MASS) * nz;
-
-  // Tangential impulse for spin transfer
-  const tx = -nz;
-  const tz = nx;
-  const relVelTangent = dvx * tx + dvz * tz;
-
-  // Surface velocity contribution from spin at contact point
-  const surfaceVelA = a.omega * STONE_RADIUS;
-  const surfaceVelB = -b.omega * STONE_RADIUS;
-  const totalTangentVel = relVelTangent + surfaceVelA + surfaceVelB;
+  // Sliding of the surfaces at the contact point, spin included
+  const slip = dvx * tx + dvz * tz + a.omega * ra - b.omega * rb;
 
-  const jTangentMax = Math.abs(jNormal) * COLLISION_TANGENTIAL_FRICTION;
-  const jTangent = Math.max(-jTangentMax, Math.min(jTangentMax, -totalTangentVel * STONE_MASS * 0.5));
+  const { normal, tangent, duration } = model.respond({
+    approach: -relVelNormal,
+    slip,
+    invMass: invMassSum,
+    invMassTangent: invMassSum + (ra * ra) / Ia + (rb * rb) / Ib,
+  });
 
-  a.vel.x -= (jTangent / STONE_MASS) * tx;
-  a.vel.z -= (jTangent / STONE_MASS) * tz;
-  b.vel.x += (jTangent / STONE_MASS) * tx;
-  b.vel.z += (jTangent / STONE_MASS) * tz;
+  a.vel.x -= (normal / ma) * nx;
+  a.vel.z -= (normal / ma) * nz;
+  b.vel.x += (normal / mb) * nx;
+  b.vel.z += (normal / mb) * nz;
+  a.vel.x -= (tangent / ma) * tx;
+  a.vel.z -= (tangent / ma) * tz;
+  b.vel.x += (tangent / mb) * tx;
+  b.vel.z += (tangent / mb) * tz;
+  a.omega += (tangent * ra) / Ia;
+  b.omega -= (tangent * rb) / Ib;
 
-  // Spin transfer from tangential impulse
-  const I = 0.5 * STONE_MASS * STONE_RADIUS * STONE_RADIUS; // moment of inertia for solid disk
-  a.omega += (jTangent * STONE_RADIUS) / I;
-  b.omega -= (jTangent * STONE_RADIUS) / I;
-
-  positionalCorrection(a, b, dist, nx, nz);
+  const point = { x: a.pos.x + nx * dist * (ra / contactDist), z: a.pos.z + nz * dist * (ra / contactDist) };
+  return { impulse: Math.abs(normal), point, duration };
 }
 
+/** Push overlapping stones apart, the lighter one further. */
 function positionalCorrection(
   a: StoneState,
   b: StoneState,
-  dist: number,
+  overlap: number,
   nx: number,
   nz: number
 ): void {
-  const overlap = CONTACT_DIST - dist;
   if (overlap <= POSITIONAL_SLOP) return;
 
-  const correction = ((overlap - POSITIONAL_SLOP) * POSITIONAL_CORRECTION_FACTOR) / 2;
-  a.pos.x -= correction * nx;
-  a.pos.z -= correction * nz;
-  b.pos.x += correction * nx;
-  b.pos.z += correction * nz;
+  const invA = 1 / stoneMass(a);
+  const invB = 1 / stoneMass(b);
+  const correction = (overlap - POSITIONAL_SLOP) * POSITIONAL_CORRECTION_FACTOR;
+  const shareA = (correction * invA) / (invA + invB);
+  const shareB = (correction * invB) / (invA + invB);
+  a.pos.x -= shareA * nx;
+  a.pos.z -= shareA * nz;
+  b.pos.x += shareB * nx;
+  b.pos.z += shareB * nz;
+}
+
+/** Bounce a stone off any board it has reached, keeping it inside their faces. */
+function reboundBoards(s: StoneState, boards: BoardSettings): Array<Omit<BoardHit, "index">> {
+  const r = stoneRadius(s);
+  const hits: Array<Omit<BoardHit, "index">> = [];
+  if (Math.abs(s.pos.x) + r > SIDE_BOARD_X) {
+    const side = Math.sign(s.pos.x);
+    s.pos.x = side * (SIDE_BOARD_X - r);
+    const speed = side * s.vel.x;
+    if (speed > 0) {
+      s.vel.x *= -boards.sideRestitution;
+      hits.push({ board: "side", speed });
+    }
+  }
+  if (Math.abs(s.pos.z) + r > BUMPER_Z) {
+    const end = Math.sign(s.pos.z);
+    s.pos.z = end * (BUMPER_Z - r);
+    const speed = end * s.vel.z;
+    if (speed > 0) {
+      s.vel.z *= -boards.endRestitution;
+      hits.push({ board: "end", speed });
+    }
+  }
+  return hits;
 }
 
-function resolveWall(s: StoneState, halfWidth: number): void {
+/** Returns true if the stone was removed from play. */
+function resolveWall(s: StoneState, halfWidth: number): boolean {
   // Side wall contact = disqualification (stone removed from play)
-  if (s.pos.x - STONE_RADIUS < -halfWidth || s.pos.x + STONE_RADIUS > halfWidth) {
+  const r = stoneRadius(s);
+  if (s.pos.x - r < -halfWidth || s.pos.x + r > halfWidth) {
     s.inPlay = false;
+    return true;
   }
+  return false;
 }
@@ -0,0 +1,92 @@
+import type { StoneState } from "./types";
+import { SETTLE_VEL_THRESHOLD } from "./types";
+import type { IceForces } from "./ice-model";
+import { stoneRadius } from "./stone-set";
+import { SIDE_BOARD_X, BUMPER_Z, HOG_Z, TEE_Z, BACK_LINE_Z } from "../utils/constants";
+
+/** Longest stretch covered in one go (s) */
+export const MAX_FAST_SPAN = 0.5;
+/** Shortest stretch worth taking the fast path for, in physics steps */
+export const MIN_FAST_STEPS = 4;
+/** Clearance kept from the nearest stone, board or line (m) */
+const CLEARANCE_MARGIN = 0.05;
+/**
+ * Fraction of the speed / deceleration stop estimate a stretch may cover.
+ * Friction rises as the stone slows (µ ∝ v^-1/2 stops it in 2/3 of the estimate),
+ * so a stretch never reaches the stop.
+ */
+const STOP_MARGIN = 0.5;
+
+/**
+ * Index of the only moving stone, or -1 unless exactly one in-play stone is
+ * moving and every other stone is at rest.
+ */
+export function soleMovingStone(stones: StoneState[]): number {
+  let moving = -1;
+  for (let i = 0; i < stones.length; i++) {
+    const s = stones[i];
+    if (!s.inPlay) continue;
+    if (s.vel.x === 0 && s.vel.z === 0 && s.omega === 0) continue;
+    if (moving >= 0) return -1;
+    moving = i;
+  }
+  if (moving < 0) return -1;
+  const { x, z } = stones[moving].vel;
+  return Math.sqrt(x * x + z * z) > SETTLE_VEL_THRESHOLD ? moving : -1;
+}
+
+/**
+ * How far (m) the stone at `index` can travel before it could touch another
+ * stone or a board, cross a sheet line, or pass out of play behind the back line.
+ */
+export function clearDistance(stones: StoneState[], index: number, targetEnd: -1 | 1): number {
+  const s = stones[index];
+  const r = stoneRadius(s);
+  let clear = Math.min(SIDE_BOARD_X - r - Math.abs(s.pos.x), BUMPER_Z - r - Math.abs(s.pos.z));
+
+  for (let i = 0; i < stones.length; i++) {
+    const o = stones[i];
+    if (i === index || !o.inPlay) continue;
+    const gap = Math.hypot(o.pos.x - s.pos.x, o.pos.z - s.pos.z) - r - stoneRadius(o);
+    clear = Math.min(clear, gap);
+  }
+
+  const backLine = targetEnd * BACK_LINE_Z;
+  for (const z of [-targetEnd * HOG_Z, targetEnd * HOG_Z, targetEnd * TEE_Z, backLine, backLine + targetEnd * r]) {
+    clear = Math.min(clear, Math.abs(s.pos.z - z));
+  }
+  return clear - CLEARANCE_MARGIN;
+}
+
+/**
+ * Number of physics steps of length `dt` the stone at `index` can be advanced
+ * in a single stretch: it stays clear of everything (see clearDistance) and
+ * keeps sliding and spinning throughout. `fall` is the largest lateral fall
+ * anywhere on the sheet (m/s²). 0 = take normal steps.
+ */
+export function fastPathSteps(
+  stones: StoneState[],
+  index: number,
+  targetEnd: -1 | 1,
+  forces: IceForces,
+  dt: number,
+  fall = 0
+): number {
+  const s = stones[index];
+  const speed = Math.sqrt(s.vel.x * s.vel.x + s.vel.z * s.vel.z);
+  const clear = clearDistance(stones, index, targetEnd);
+  if (clear <= 0) return 0;
+
+  // Friction and curl never speed a stone up and the fall adds at most `fall`, so
+  // it travels at most v·t + ½·fall·t² in time t: solve that for the clear distance
+  let span = Math.min(MAX_FAST_SPAN, (2 * clear) / (speed + Math.sqrt(speed * speed + 2 * fall * clear)));
+  const decel = -(forces.ax * s.vel.x + forces.az * s.vel.z) / speed;
+  if (decel > 0) span = Math.min(span, (STOP_MARGIN * speed) / decel);
+  // Likewise for the spin, whose stop switches the curl off
+  if (s.omega !== 0 && forces.alphaOmega * s.omega < 0) {
+    span = Math.min(span, (STOP_MARGIN * Math.abs(s.omega)) / Math.abs(forces.alphaOmega));
+  }
+
+  const steps = Math.floor(span / dt);
+  return steps >= MIN_FAST_STEPS ? steps : 0;
+}
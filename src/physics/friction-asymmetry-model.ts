@@ -0,0 +1,101 @@
+import type { StoneState, LocalIce } from "./types";
+import { GRAVITY, UNIFORM_ICE } from "./types";
+import type { IceModel, IceForces } from "./ice-model";
+import { sweepScale } from "./ice-model";
+import { stoneRadius } from "./stone-set";
+
+export interface FrictionAsymmetryParams {
+  mu0: number; // local friction coefficient mu(u) = mu0 * u^(-0.5) at slip speed u
+  muMax: number; // clamped max mu at low slip speed
+  bandRadius: number; // running band radius (m), unless the stone has its own
+  asymmetry: number; // fractional friction excess at the back of the band over the front
+  samples: number; // points used to integrate friction around the band
+  sweepMuFactor: number; // multiplier on mu when sweeping (< 1 = less friction)
+  sweepCurlFactor: number; // multiplier on asymmetry when sweeping (< 1 = straighter)
+}
+
+export const DEFAULT_FRICTION_ASYMMETRY_PARAMS: FrictionAsymmetryParams = {
+  mu0: 0.008,
+  muMax: 0.06,
+  bandRadius: 0.0625,
+  asymmetry: 0.9,
+  samples: 12,
+  sweepMuFactor: 0.78,
+  sweepCurlFactor: 0.45,
+};
+
+/**
+ * Front/back friction asymmetry model (after Denny; Nyberg et al.): friction is
+ * integrated around the running band using each point's own slip velocity,
+ * with the back of the band dragging more than the front. A rotating stone's
+ * front and back slip sideways in opposite directions, so the imbalance yields
+ * a lateral force, and the same integral gives the spin-down torque.
+ */
+export class FrictionAsymmetryIceModel implements IceModel {
+  readonly kind = "friction-asymmetry";
+  params: FrictionAsymmetryParams;
+
+  constructor(params?: Partial<FrictionAsymmetryParams>) {
+    this.params = { ...DEFAULT_FRICTION_ASYMMETRY_PARAMS, ...params };
+  }
+
+  computeForces(stone: StoneState, sweep: number, local: LocalIce = UNIFORM_ICE): IceForces {
+    const p = this.params;
+    const speed = Math.sqrt(stone.vel.x * stone.vel.x + stone.vel.z * stone.vel.z);
+    if (speed < 0.0005 && Math.abs(stone.omega) < 0.001) {
+      return { ax: 0, az: 0, alphaOmega: 0 };
+    }
+
+    // Travel frame: forward (f) and its perpendicular (n); arbitrary when not translating
+    const moving = speed >= 0.0005;
+    const fX = moving ? stone.vel.x / speed : 0;
+    const fZ = moving ? stone.vel.z / speed : -1;
+    const nX = -fZ;
+    const nZ = fX;
+    // Keep the back-to-front ratio finite: the front of the band must still drag
+    const baseAsymmetry = p.asymmetry * sweepScale(p.sweepCurlFactor, sweep) * local.curl;
+    const asymmetry = moving ? Math.min(baseAsymmetry, 0.99) : 0;
+
+    // The rock's own running band, if it has one, replaces the model's
+    const bandRadius = stone.props?.bandRadius ?? p.bandRadius;
+
+    // Positive omega is clockwise from above, i.e. angular velocity -omega about +Y
+    const n = Math.max(1, Math.round(p.samples));
+    let ax = 0;
+    let az = 0;
+    let torqueY = 0;
+    for (let i = 0; i < n; i++) {
+      const theta = (2 * Math.PI * i) / n;
+      const cos = Math.cos(theta);
+      const sin = Math.sin(theta);
+      const rX = bandRadius * (cos * fX + sin * nX);
+      const rZ = bandRadius * (cos * fZ + sin * nZ);
+
+      const uX = stone.vel.x - stone.omega * rZ;
+      const uZ = stone.vel.z + stone.omega * rX;
+      const u = Math.sqrt(uX * uX + uZ * uZ);
+      if (u < 1e-6) continue;
+
+      let mu = u > 0.01 ? Math.min(p.mu0 * Math.pow(u, -0.5), p.muMax) : p.muMax;
+      mu *= sweepScale(p.sweepMuFactor, sweep) * local.friction;
+      // Front of the band (cos = 1) drags less than the back (cos = -1)
+      mu *= 1 - asymmetry * cos;
+
+      const fx = (-mu * GRAVITY * uX) / u / n;
+      const fz = (-mu * GRAVITY * uZ) / u / n;
+      ax += fx;
+      az += fz;
+      torqueY += rZ * fx - rX * fz;
+    }
+
+    // Per unit mass: I/m = R²/2 for a solid disk
+    const radius = stoneRadius(stone);
+    const alphaOmega = -torqueY / (0.5 * radius * radius);
+    if (moving) ax += local.fallX;
+    return { ax, az, alphaOmega };
+  }
+
+  clone(): FrictionAsymmetryIceModel {
+    return new FrictionAsymmetryIceModel(this.params);
+  }
+}
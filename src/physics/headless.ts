@@ -1,6 +1,36 @@
-import type { Team, ShotRelease } from "./types";
+import type {
+  Team,
+  ShotRelease,
+  EndScore,
+  IceParams,
+  RuleOptions,
+  DeliveryEvent,
+  SweepAction,
+  SweepPlan,
+  IntegratorSettings,
+  BoardSettings,
+} from "./types";
 import { GameController } from "../game/game-controller";
-import { PhysicsWorld } from "./world";
+import type {
+  MatchConfig,
+  LastStoneDrawResult,
+  PlacementChoice,
+  SkinOutcome,
+} from "../game/game-controller";
+import { PhysicsWorld, cloneStone } from "./world";
+import type { IceModel } from "./ice-model";
+import { EmpiricalIceModel, isIceModel } from "./ice-model";
+import type { IceMap } from "./ice-map";
+import type { IceWear, IceWearData } from "./ice-wear";
+import type { PebbleNoiseParams } from "./pebble-noise";
+import { PebbleNoise } from "./pebble-noise";
+import type { IceConditionsPreset } from "./ice-environment";
+import { IceConditions } from "./ice-environment";
+import type { StoneSet } from "./stone-set";
+import type { CollisionModel, CollisionModelSpec } from "./collision-model";
+import { createCollisionModel } from "./collision-model";
+import type { SkillLevel, SkillProfile } from "./release-error";
+import { ReleaseError } from "./release-error";
 
 export interface BoardState {
   stones: Array<{
@@ -12,13 +42,30 @@ export interface BoardState {
   currentTeam: Team;
   score: { red: number; yellow: number };
   currentEnd: number;
+  /** True while playing beyond the regulation ends */
+  isExtraEnd: boolean;
+  /** True while the pre-game Last Stone Draw is being played */
+  inLastStoneDraw: boolean;
   deliveryCount: number;
+  /** Pebble wear so far (IceWear.fromJSON restores it); null without a wear model */
+  iceWear: IceWearData | null;
+}
+
+/** End score, plus the skin outcome when playing skins. */
+export interface EndResult extends EndScore {
+  skin?: SkinOutcome;
 }
 
 export interface ThrowResult {
+  /** The release as thrown, after any execution error */
+  release: ShotRelease;
   steps: number;
   finalState: BoardState;
-  score?: { red: number; yellow: number; winner: Team | null };
+  /** Collisions, line crossings, stops and removals during the delivery */
+  events: DeliveryEvent[];
+  /** Measured distance (m) if this was a Last Stone Draw */
+  drawDistance?: number;
+  score?: EndResult;
 }
 
 /**
@@ -27,64 +74,253 @@ export interface ThrowResult {
  */
 export class HeadlessGame {
   private controller: GameController;
+  private releaseError: ReleaseError | null = null;
 
-  constructor(iceParams?: Partial<import("./types").IceParams>) {
-    this.controller = new GameController();
-    if (iceParams) {
-      this.controller.world.ice = { ...this.controller.world.ice, ...iceParams };
-    }
+  /**
+   * `ice` is either an ice model (see createIceModel) or parameters for the default empirical model.
+   */
+  constructor(
+    ice?: IceModel | Partial<IceParams>,
+    rules?: Partial<RuleOptions>,
+    match?: Partial<MatchConfig>
+  ) {
+    const model = isIceModel(ice) ? ice : new EmpiricalIceModel(ice);
+    this.controller = new GameController(rules, match, model);
+  }
+
+  /** True once the current end has been scored (END_SCORE or GAME_OVER). */
+  private get endComplete(): boolean {
+    return this.controller.phase === "END_SCORE" || this.controller.phase === "GAME_OVER";
   }
 
   /**
    * Deliver a stone and run simulation until it settles.
-   * Returns the number of physics steps taken and the final board state.
+   * With a sweep plan, the plan drives the sweeping for this delivery only; the
+   * setting from setSweep applies again afterwards.
+   * With a release error set, the stone leaves the hand with that error rather than exactly as intended.
+   * Returns the release as thrown, the number of physics steps taken, the final board state and the
+   * delivery's event log.
    */
-  throwAndSettle(release: ShotRelease): ThrowResult {
-    if (this.controller.phase !== "AIMING") {
+  throwAndSettle(intended: ShotRelease, sweep?: SweepPlan): ThrowResult {
+    if (!this.controller.isAiming) {
       throw new Error(`Cannot throw stone in phase: ${this.controller.phase}`);
     }
+    const release = this.releaseError ? this.releaseError.apply(intended) : intended;
 
+    const lsd = this.controller.inLastStoneDraw ? this.controller.currentTeam : null;
+    const world = this.controller.world;
+    const { intensity, sweepers, placement } = world.sweep;
     this.controller.throwStone(release);
-    const steps = this.controller.world.runUntilSettled();
+    if (sweep) world.followSweepPlan(sweep);
+    const steps = world.runUntilSettled();
+    if (sweep) world.sweep.set({ intensity, sweepers, placement });
 
-    // Manually update phase after simulation settles (normally done by controller.update())
-    // This mirrors the logic in GameController.update()
+    // Hand over to the controller's end-of-delivery logic (normally done by controller.update())
     if (!this.controller.world.isSimulating) {
-      if (this.controller.deliveryCount >= 16) {
-        // End is complete - score it
-        const result = this.controller.world.score();
-        this.controller.scoreHistory.push({ red: result.red, yellow: result.yellow });
-        this.controller.totalScore.red += result.red;
-        this.controller.totalScore.yellow += result.yellow;
-
-        // Team that scored loses hammer
-        if (result.winner) {
-          this.controller.hammerTeam = result.winner === "red" ? "yellow" : "red";
-        }
-
-        if (this.controller.currentEnd >= 2) {
-          this.controller.phase = "GAME_OVER";
-        } else {
-          this.controller.phase = "END_SCORE";
-        }
-      } else {
-        this.controller.phase = "AIMING";
-      }
+      this.controller.deliverySettled();
     }
 
     const result: ThrowResult = {
+      release,
       steps,
       finalState: this.getState(),
+      events: this.controller.world.events,
     };
 
+    if (lsd) {
+      const draws = this.controller.lsd[lsd];
+      result.drawDistance = draws[draws.length - 1];
+    }
+
     // If end is complete, include score
-    if (this.controller.phase === "END_SCORE" || this.controller.phase === "GAME_OVER") {
-      result.score = this.controller.world.score();
+    if (this.endComplete) {
+      result.score = this.endResult();
     }
 
     return result;
   }
 
+  /**
+   * Get the Last Stone Draw measurements and, once complete, the Draw Shot Challenge values.
+   */
+  getLastStoneDraw(): {
+    draws: LastStoneDrawResult;
+    drawShotChallenge: { red: number; yellow: number } | null;
+  } {
+    const dsc = this.controller.drawShotChallenge;
+    return {
+      draws: { red: [...this.controller.lsd.red], yellow: [...this.controller.lsd.yellow] },
+      drawShotChallenge: dsc ? { ...dsc } : null,
+    };
+  }
+
+  /**
+   * Mixed doubles: choose positioned stone placement (and optionally a power play)
+   * for the current end. Only valid before the end's first delivery.
+   * Returns false if the choice is not allowed.
+   */
+  placeStones(choice: PlacementChoice): boolean {
+    return this.controller.placeStones(choice);
+  }
+
+  /**
+   * Set the sweeping for later deliveries: intensity (0–1), number of sweepers and placement.
+   * Omitted fields keep their current value; the setting holds until changed, across reset().
+   */
+  setSweep(action: Partial<SweepAction>): void {
+    this.controller.setSweep(action);
+  }
+
+  /**
+   * Use spatially varying ice (see IceMap.fromPreset / random / fromJSON), or null for a uniform sheet.
+   * The map applies to every later delivery and survives reset().
+   */
+  setIceMap(map: IceMap | null): void {
+    this.controller.world.iceMap = map;
+  }
+
+  /** The current ice map, or null for a uniform sheet. */
+  getIceMap(): IceMap | null {
+    return this.controller.world.iceMap;
+  }
+
+  /**
+   * Model pebble wear (see IceWear), or null to keep the ice unchanged through the game.
+   * The wear resets to fresh pebble on reset() and re-pebbles between ends per its parameters.
+   */
+  setIceWear(wear: IceWear | null): void {
+    this.controller.world.iceWear = wear;
+  }
+
+  /** The current wear state (serializable with toJSON), or null if wear is not modelled. */
+  getIceWear(): IceWear | null {
+    return this.controller.world.iceWear;
+  }
+
+  /**
+   * Add seeded pebble noise (a PebbleNoise or its seed, amplitude and other
+   * parameters), or null for smooth ice. Each delivery gets fresh pebble; the
+   * sequence restarts on reset() and clones continue it, so the same seed and
+   * throws always give the same game. Use different seeds for independent rollouts.
+   */
+  setPebbleNoise(noise: PebbleNoise | Partial<PebbleNoiseParams> | null): void {
+    this.controller.world.pebbleNoise = noise && !(noise instanceof PebbleNoise) ? new PebbleNoise(noise) : noise;
+  }
+
+  /** The current pebble noise, or null for smooth ice. */
+  getPebbleNoise(): PebbleNoise | null {
+    return this.controller.world.pebbleNoise;
+  }
+
+  /**
+   * Play in the given rink conditions (a named preset or an IceConditions with
+   * optional drift), or null for the reference conditions.
+   */
+  setIceConditions(conditions: IceConditions | IceConditionsPreset | null): void {
+    this.controller.world.iceConditions =
+      typeof conditions === "string" ? new IceConditions(conditions) : conditions;
+  }
+
+  /** The current rink conditions, or null for the reference conditions. */
+  getIceConditions(): IceConditions | null {
+    return this.controller.world.iceConditions;
+  }
+
+  /**
+   * Throw a specific set of rocks (see StoneSet.fromJSON), or null for identical standard stones.
+   * Each team's stones take the set's rocks in delivery order from the next stone on.
+   */
+  setStoneSet(set: StoneSet | null): void {
+    this.controller.world.stoneSet = set;
+  }
+
+  /** The current stone set, or null for standard stones. */
+  getStoneSet(): StoneSet | null {
+    return this.controller.world.stoneSet;
+  }
+
+  /**
+   * Choose the integrator: "euler" (default, fastest), "rk4", or "adaptive"
+   * (error-controlled sub-steps that land stops and impacts exactly). With
+   * `fastPath`, a stone travelling alone is advanced in long stretches.
+   * Omitted fields keep their current value.
+   */
+  setIntegrator(settings: Partial<IntegratorSettings>): void {
+    const next = { ...this.controller.world.integrator, ...settings };
+    if (!(next.dt > 0)) throw new Error(`Integrator step must be positive, got ${next.dt}`);
+    if (!(next.tolerance > 0)) throw new Error(`Integrator tolerance must be positive, got ${next.tolerance}`);
+    this.controller.world.integrator = next;
+  }
+
+  /** The current integrator settings. */
+  getIntegrator(): IntegratorSettings {
+    return { ...this.controller.world.integrator };
+  }
+
+  /**
+   * Choose how stones strike each other: "impulse" (default: fixed restitution
+   * and friction) or "throw" (speed-dependent restitution, spin-dependent
+   * throw and contact duration). Takes a model or its spec.
+   */
+  setCollisionModel(model: CollisionModel | CollisionModelSpec): void {
+    this.controller.world.collisionModel = "respond" in model ? model : createCollisionModel(model);
+  }
+
+  /**
+   * Make the side and end boards physical: with `rebound`, stones bounce off
+   * them with the given restitutions. Whether touching a board still puts a
+   * stone out of play is the `boardContactOutOfPlay` rule. Omitted fields keep their current value.
+   */
+  setBoards(settings: Partial<BoardSettings>): void {
+    const next = { ...this.controller.world.boards, ...settings };
+    for (const e of [next.sideRestitution, next.endRestitution]) {
+      if (!(e >= 0 && e <= 1)) throw new Error(`Board restitution must be between 0 and 1, got ${e}`);
+    }
+    this.controller.world.boards = next;
+  }
+
+  /** The current board settings. */
+  getBoards(): BoardSettings {
+    return { ...this.controller.world.boards };
+  }
+
+  /**
+   * Miss every later release by seeded Gaussian errors (a ReleaseError, a
+   * skill level such as "club", or error standard deviations), or null to
+   * throw exactly as intended. The error sequence restarts on reset() and
+   * clones continue it.
+   */
+  setReleaseError(error: ReleaseError | SkillLevel | Partial<SkillProfile> | null, seed?: number): void {
+    this.releaseError = error === null || error instanceof ReleaseError ? error : new ReleaseError(error, seed);
+  }
+
+  /** The current release error, or null for exact execution. */
+  getReleaseError(): ReleaseError | null {
+    return this.releaseError;
+  }
+
+  /** The current collision model. */
+  getCollisionModel(): CollisionModel {
+    return this.controller.world.collisionModel;
+  }
+
+  /**
+   * Concede the game for `team`. Returns false if the match format does not allow it yet.
+   */
+  concede(team: Team): boolean {
+    return this.controller.concede(team);
+  }
+
+  /** Score of the current end, with its skin outcome once a skins end is complete. */
+  private endResult(): EndResult {
+    const result: EndResult = this.controller.world.score();
+    const skin = this.controller.skinHistory[this.controller.skinHistory.length - 1];
+    if (this.endComplete && skin && skin.end === this.controller.currentEnd) {
+      result.skin = { ...skin };
+    }
+    return result;
+  }
+
   /**
    * Get current board state in a compact format suitable for ML feature extraction.
    */
@@ -99,37 +335,36 @@ export class HeadlessGame {
       currentTeam: this.controller.currentTeam,
       score: { ...this.controller.totalScore },
       currentEnd: this.controller.currentEnd,
+      isExtraEnd: this.controller.isExtraEnd,
+      inLastStoneDraw: this.controller.inLastStoneDraw,
       deliveryCount: this.controller.deliveryCount,
+      iceWear: this.controller.world.iceWear?.toJSON() ?? null,
     };
   }
 
   /**
-   * Simulate a full end (up to 16 shots, alternating teams).
-   * Returns the final score for the end.
+   * Simulate a full end (up to one shot per remaining delivery, alternating teams).
+   * `sweeps[i]` is an optional sweep plan for `shots[i]`. Returns the final score for the end.
    */
-  simulateEnd(shots: ShotRelease[]): { red: number; yellow: number; winner: Team | null } {
-    const maxShots = 16;
+  simulateEnd(shots: ShotRelease[], sweeps?: Array<SweepPlan | undefined>): EndResult {
+    const maxShots = this.controller.deliveriesPerEnd;
     const actualShots = shots.slice(0, maxShots);
 
-    for (const shot of actualShots) {
-      this.throwAndSettle(shot);
+    for (const [i, shot] of actualShots.entries()) {
+      this.throwAndSettle(shot, sweeps?.[i]);
       // If end is complete, break
-      if (this.controller.phase === "END_SCORE" || this.controller.phase === "GAME_OVER") {
+      if (this.endComplete) {
         break;
       }
-      // Otherwise phase should be "AIMING" and we continue
+      // Otherwise we are aiming the next stone and continue
     }
 
     // Get score before potentially resetting
-    const score = this.controller.world.score();
+    const score = this.endResult();
 
     // If we ended in END_SCORE phase, advance to next end
     if (this.controller.phase === "END_SCORE") {
-      this.controller.currentEnd++;
-      this.controller.deliveryCount = 0;
-      this.controller.world.resetEnd();
-      this.controller.world.targetEnd = this.controller.world.targetEnd === -1 ? 1 : -1;
-      this.controller.phase = "AIMING";
+      this.controller.startNextEnd();
     }
 
     return score;
@@ -139,29 +374,51 @@ export class HeadlessGame {
    * Create a deep copy of the game state for tree search / rollouts.
    */
   clone(): HeadlessGame {
-    const cloned = new HeadlessGame();
+    const cloned = new HeadlessGame(
+      this.controller.world.iceModel.clone(),
+      this.controller.rules,
+      this.controller.match
+    );
     cloned.controller.phase = this.controller.phase;
     cloned.controller.currentEnd = this.controller.currentEnd;
     cloned.controller.deliveryCount = this.controller.deliveryCount;
     cloned.controller.hammerTeam = this.controller.hammerTeam;
+    cloned.controller.conceded = this.controller.conceded;
+    cloned.controller.lsd = { red: [...this.controller.lsd.red], yellow: [...this.controller.lsd.yellow] };
+    cloned.controller.drawShotChallenge = this.controller.drawShotChallenge
+      ? { ...this.controller.drawShotChallenge }
+      : null;
+    cloned.controller.skins = { ...this.controller.skins };
+    cloned.controller.skinCarry = this.controller.skinCarry;
+    cloned.controller.skinHistory = this.controller.skinHistory.map((s) => ({ ...s }));
+    cloned.controller.placementTeam = this.controller.placementTeam;
+    cloned.controller.powerPlay = this.controller.powerPlay;
+    cloned.controller.powerPlayUsed = { ...this.controller.powerPlayUsed };
     cloned.controller.totalScore = { ...this.controller.totalScore };
     cloned.controller.scoreHistory = this.controller.scoreHistory.map((s) => ({ ...s }));
 
     // Deep clone physics world
-    cloned.controller.world.ice = { ...this.controller.world.ice };
-    cloned.controller.world.sweeping = this.controller.world.sweeping;
+    cloned.controller.world.iceMap = this.controller.world.iceMap?.clone() ?? null;
+    cloned.controller.world.iceWear = this.controller.world.iceWear?.clone() ?? null;
+    cloned.controller.world.pebbleNoise = this.controller.world.pebbleNoise?.clone() ?? null;
+    cloned.controller.world.iceConditions = this.controller.world.iceConditions?.clone() ?? null;
+    cloned.controller.world.stoneSet = this.controller.world.stoneSet;
+    cloned.controller.world.sweep = this.controller.world.sweep.clone();
+    cloned.controller.world.integrator = { ...this.controller.world.integrator };
+    cloned.controller.world.collisionModel = this.controller.world.collisionModel.clone();
+    cloned.controller.world.boards = { ...this.controller.world.boards };
     cloned.controller.world.targetEnd = this.controller.world.targetEnd;
     cloned.controller.world.deliveredStoneIndex = this.controller.world.deliveredStoneIndex;
     cloned.controller.world.accumulator = this.controller.world.accumulator;
-    cloned.controller.world.stones = this.controller.world.stones.map((s) => ({
-      pos: { x: s.pos.x, z: s.pos.z },
-      vel: { x: s.vel.x, z: s.vel.z },
-      omega: s.omega,
-      angle: s.angle,
-      team: s.team,
-      inPlay: s.inPlay,
-      deliveryIndex: s.deliveryIndex,
-    }));
+    cloned.controller.world.stones = this.controller.world.stones.map(cloneStone);
+    cloned.controller.world.preDeliveryStones =
+      this.controller.world.preDeliveryStones?.map(cloneStone) ?? null;
+    cloned.controller.world.deliveredStruckStone = this.controller.world.deliveredStruckStone;
+    cloned.controller.world.events = this.controller.world.events.map((e) => ({ ...e }));
+    cloned.controller.world.deliveryStep = this.controller.world.deliveryStep;
+    cloned.controller.world.deliveryDistance = this.controller.world.deliveryDistance;
+    cloned.controller.world.deliveryLines = [...this.controller.world.deliveryLines];
+    cloned.releaseError = this.releaseError?.clone() ?? null;
 
     return cloned;
   }
@@ -171,6 +428,7 @@ export class HeadlessGame {
    */
   reset(): void {
     this.controller.resetGame();
+    this.releaseError?.reset();
   }
 
   /**
@@ -0,0 +1,129 @@
+import type { IceParams, LocalIce } from "./types";
+import { DEFAULT_ICE_PARAMS } from "./types";
+
+/** Rink conditions that set how fast and how swingy the ice plays. */
+export interface IceEnvironment {
+  iceTemp: number; // ice surface temperature (°C)
+  airTemp: number; // air temperature at 1.5 m (°C)
+  dewPoint: number; // air dew point (°C); frost forms when it is above the ice surface temperature
+  pebbleAge: number; // minutes since the sheet was last pebbled
+}
+
+/** How conditions change during a game. */
+export interface EnvironmentDrift {
+  iceTempPerHour: number; // °C per hour
+  airTempPerHour: number; // °C per hour
+  dewPointPerHour: number; // °C per hour
+  minutesPerEnd: number; // playing time of one end
+}
+
+export const DEFAULT_ENVIRONMENT_DRIFT: EnvironmentDrift = {
+  iceTempPerHour: 0,
+  airTempPerHour: 0,
+  dewPointPerHour: 0,
+  minutesPerEnd: 15,
+};
+
+export type IceConditionsPreset = "arena ice" | "club ice" | "frosty";
+
+export const ICE_CONDITIONS_PRESETS: Record<IceConditionsPreset, IceEnvironment> = {
+  // Championship conditions: DEFAULT_ICE_PARAMS are tuned for these
+  "arena ice": { iceTemp: -4.5, airTemp: 10, dewPoint: -6, pebbleAge: 0 },
+  // Slightly warm ice, pebble down for an hour: a touch slower and straighter
+  "club ice": { iceTemp: -3.5, airTemp: 6, dewPoint: -4, pebbleAge: 60 },
+  // Humid building over cold ice: frost makes it heavy and straight
+  "frosty": { iceTemp: -5.5, airTemp: 14, dewPoint: -2, pebbleAge: 30 },
+};
+
+/** True if `name` is an ice conditions preset (its own key, not one inherited from Object.prototype). */
+export function isIceConditionsPreset(name: string): name is IceConditionsPreset {
+  return Object.prototype.hasOwnProperty.call(ICE_CONDITIONS_PRESETS, name);
+}
+
+/** Reference conditions at which the environment leaves ice parameters unchanged */
+const REFERENCE = ICE_CONDITIONS_PRESETS["arena ice"];
+
+/**
+ * Friction and curl multipliers for an environment, relative to the reference
+ * arena conditions. Warmer (softer) pebble grips more and curls more; frost
+ * and flattened, aged pebble add friction and take curl away.
+ */
+export function environmentFactors(env: IceEnvironment): LocalIce {
+  // The air warms the ice surface slightly
+  const surfaceTemp = env.iceTemp + 0.04 * (env.airTemp - REFERENCE.airTemp);
+  const warmth = surfaceTemp - REFERENCE.iceTemp;
+  const frost = 1 - Math.exp(-Math.max(0, env.dewPoint - surfaceTemp) / 2);
+  const age = 1 - Math.exp(-Math.max(0, env.pebbleAge) / 90);
+
+  const friction = (1 + 0.08 * warmth) * (1 + 0.35 * frost) * (1 + 0.12 * age);
+  const curl = (1 + 0.1 * warmth) * (1 - 0.4 * frost) * (1 - 0.2 * age);
+  return { friction: Math.max(0.2, friction), curl: Math.max(0.2, curl), fallX: 0 };
+}
+
+/** Empirical ice parameters for an environment, scaled from `base` (tuned for arena ice). */
+export function environmentIceParams(env: IceEnvironment, base: IceParams = DEFAULT_ICE_PARAMS): IceParams {
+  const { friction, curl } = environmentFactors(env);
+  return {
+    ...base,
+    mu0: base.mu0 * friction,
+    muMax: base.muMax * friction,
+    curlCoeff: base.curlCoeff * curl,
+  };
+}
+
+/**
+ * The rink environment over a game: starts from the given conditions and,
+ * with drift, changes end by end as temperatures move and the pebble ages.
+ */
+export class IceConditions {
+  readonly initial: IceEnvironment;
+  environment: IceEnvironment;
+  /** null = conditions hold for the whole game */
+  drift: EnvironmentDrift | null;
+  private cachedFactors: LocalIce;
+
+  constructor(environment: IceEnvironment | IceConditionsPreset, drift?: Partial<EnvironmentDrift> | null) {
+    if (typeof environment === "string" && !isIceConditionsPreset(environment)) {
+      throw new Error(`Unknown ice conditions preset: ${environment}`);
+    }
+    const env = typeof environment === "string" ? ICE_CONDITIONS_PRESETS[environment] : environment;
+    this.initial = { ...env };
+    this.environment = { ...env };
+    this.drift = drift ? { ...DEFAULT_ENVIRONMENT_DRIFT, ...drift } : null;
+    this.cachedFactors = environmentFactors(this.environment);
+  }
+
+  /** Current friction and curl multipliers (see environmentFactors). */
+  get factors(): LocalIce {
+    return this.cachedFactors;
+  }
+
+  /** Current conditions as empirical ice parameters. */
+  toIceParams(base?: IceParams): IceParams {
+    return environmentIceParams(this.environment, base);
+  }
+
+  /** Advance one end of play (no-op without drift). */
+  advanceEnd(): void {
+    if (!this.drift) return;
+    const hours = this.drift.minutesPerEnd / 60;
+    this.environment.iceTemp += this.drift.iceTempPerHour * hours;
+    this.environment.airTemp += this.drift.airTempPerHour * hours;
+    this.environment.dewPoint += this.drift.dewPointPerHour * hours;
+    this.environment.pebbleAge += this.drift.minutesPerEnd;
+    this.cachedFactors = environmentFactors(this.environment);
+  }
+
+  /** Back to the starting conditions (new game). */
+  reset(): void {
+    this.environment = { ...this.initial };
+    this.cachedFactors = environmentFactors(this.environment);
+  }
+
+  clone(): IceConditions {
+    const copy = new IceConditions(this.initial, this.drift);
+    copy.environment = { ...this.environment };
+    copy.cachedFactors = environmentFactors(copy.environment);
+    return copy;
+  }
+}
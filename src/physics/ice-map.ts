@@ -0,0 +1,226 @@
+import type { LocalIce } from "./types";
+import { createRng } from "../utils/random";
+import { SHEET_WIDTH, SHEET_LENGTH } from "../utils/constants";
+
+/** Serializable ice map: node values on a regular grid covering the whole sheet, row-major (rows along Z). */
+export interface IceMapData {
+  cols: number; // grid nodes across the sheet (X)
+  rows: number; // grid nodes along the sheet (Z)
+  friction: number[]; // friction multipliers, rows × cols
+  curl: number[]; // curl multipliers, rows × cols
+  fallX: number[]; // lateral fall accelerations toward +X (m/s²), rows × cols
+}
+
+export type IceMapPreset =
+  | "flat" // uniform ice
+  | "straight" // little curl everywhere
+  | "swingy" // lots of curl everywhere
+  | "crowned" // high down the centre, falls toward both side boards
+  | "dished" // low down the centre, falls in from both side boards
+  | "sloped" // whole sheet falls toward +X
+  | "keen-paths"; // worn, faster and straighter tracks either side of the centre line
+
+export const ICE_MAP_PRESETS: readonly IceMapPreset[] = [
+  "flat",
+  "straight",
+  "swingy",
+  "crowned",
+  "dished",
+  "sloped",
+  "keen-paths",
+];
+
+export interface RandomIceMapOptions {
+  cols: number;
+  rows: number;
+  frictionAmplitude: number; // max deviation of the friction multiplier from 1
+  curlAmplitude: number; // max deviation of the curl multiplier from 1
+  fallAmplitude: number; // max lateral fall acceleration (m/s²)
+  smoothing: number; // box-blur passes over the random node values
+}
+
+export const DEFAULT_RANDOM_ICE_MAP_OPTIONS: RandomIceMapOptions = {
+  cols: 7,
+  rows: 25,
+  frictionAmplitude: 0.03,
+  curlAmplitude: 0.25,
+  fallAmplitude: 0.0015,
+  smoothing: 2,
+};
+
+/** Typical lateral fall on a noticeably sloped sheet (m/s²) */
+const PRESET_FALL = 0.0015;
+/** Distance of the usual in-turn/out-turn paths from the centre line (m) */
+const PATH_X = 0.6;
+
+const HALF_WIDTH = SHEET_WIDTH / 2;
+const HALF_LENGTH = SHEET_LENGTH / 2;
+
+/**
+ * Spatially varying ice over the sheet: local friction and curl multipliers
+ * plus a lateral fall, bilinearly interpolated between grid nodes.
+ * Positions outside the sheet take the value at the nearest edge.
+ */
+export class IceMap {
+  readonly cols: number;
+  readonly rows: number;
+  readonly friction: number[];
+  readonly curl: number[];
+  readonly fallX: number[];
+  /** Largest lateral fall anywhere on the sheet (m/s²) */
+  readonly maxFall: number;
+
+  constructor(data: IceMapData) {
+    const { cols, rows } = data;
+    if (!Number.isInteger(cols) || !Number.isInteger(rows) || cols < 2 || rows < 2) {
+      throw new Error(`Ice map needs at least 2×2 grid nodes, got ${cols}×${rows}`);
+    }
+    for (const field of ["friction", "curl", "fallX"] as const) {
+      const values = data[field];
+      if (!Array.isArray(values) || values.length !== cols * rows) {
+        throw new Error(`Ice map ${field} must have ${cols * rows} values`);
+      }
+      if (values.some((v) => !Number.isFinite(v) || (field !== "fallX" && v < 0))) {
+        throw new Error(`Ice map ${field} contains an invalid value`);
+      }
+    }
+    this.cols = cols;
+    this.rows = rows;
+    this.friction = [...data.friction];
+    this.curl = [...data.curl];
+    this.fallX = [...data.fallX];
+    this.maxFall = Math.max(...this.fallX.map(Math.abs));
+  }
+
+  /** Build a map by evaluating `fn` at every grid node. */
+  static fromFunction(cols: number, rows: number, fn: (x: number, z: number) => LocalIce): IceMap {
+    const data: IceMapData = { cols, rows, friction: [], curl: [], fallX: [] };
+    for (let j = 0; j < rows; j++) {
+      for (let i = 0; i < cols; i++) {
+        const local = fn(nodeX(i, cols), nodeZ(j, rows));
+        data.friction.push(local.friction);
+        data.curl.push(local.curl);
+        data.fallX.push(local.fallX);
+      }
+    }
+    return new IceMap(data);
+  }
+
+  /** Build one of the named preset maps. */
+  static fromPreset(preset: IceMapPreset): IceMap {
+    switch (preset) {
+      case "flat":
+        return IceMap.fromFunction(2, 2, () => ({ friction: 1, curl: 1, fallX: 0 }));
+      case "straight":
+        return IceMap.fromFunction(2, 2, () => ({ friction: 1, curl: 0.6, fallX: 0 }));
+      case "swingy":
+        return IceMap.fromFunction(2, 2, () => ({ friction: 1, curl: 1.5, fallX: 0 }));
+      case "crowned":
+        return IceMap.fromFunction(9, 2, (x) => ({ friction: 1, curl: 1, fallX: (PRESET_FALL * x) / HALF_WIDTH }));
+      case "dished":
+        return IceMap.fromFunction(9, 2, (x) => ({ friction: 1, curl: 1, fallX: (-PRESET_FALL * x) / HALF_WIDTH }));
+      case "sloped":
+        return IceMap.fromFunction(2, 2, () => ({ friction: 1, curl: 1, fallX: PRESET_FALL }));
+      case "keen-paths":
+        return IceMap.fromFunction(17, 2, (x) => {
+          // Gaussian tracks centred on the usual paths either side of the centre line
+          const d = Math.abs(x) - PATH_X;
+          const wear = Math.exp(-(d * d) / (2 * 0.2 * 0.2));
+          return { friction: 1 - 0.04 * wear, curl: 1 - 0.2 * wear, fallX: 0 };
+        });
+    }
+  }
+
+  /**
+   * Smooth random map from a seed; the same seed and options always give the same map.
+   */
+  static random(seed: number, options?: Partial<RandomIceMapOptions>): IceMap {
+    const o = { ...DEFAULT_RANDOM_ICE_MAP_OPTIONS, ...options };
+    const rng = createRng(seed);
+    const friction = smoothNoise(rng, o.cols, o.rows, o.smoothing);
+    const curl = smoothNoise(rng, o.cols, o.rows, o.smoothing);
+    const fall = smoothNoise(rng, o.cols, o.rows, o.smoothing);
+    return new IceMap({
+      cols: o.cols,
+      rows: o.rows,
+      friction: friction.map((n) => 1 + o.frictionAmplitude * n),
+      curl: curl.map((n) => 1 + o.curlAmplitude * n),
+      fallX: fall.map((n) => o.fallAmplitude * n),
+    });
+  }
+
+  /** Load a map from its JSON form (a string or an already parsed object). */
+  static fromJSON(json: string | IceMapData): IceMap {
+    return new IceMap(typeof json === "string" ? (JSON.parse(json) as IceMapData) : json);
+  }
+
+  toJSON(): IceMapData {
+    return {
+      cols: this.cols,
+      rows: this.rows,
+      friction: [...this.friction],
+      curl: [...this.curl],
+      fallX: [...this.fallX],
+    };
+  }
+
+  clone(): IceMap {
+    return new IceMap(this);
+  }
+
+  /** Local ice conditions at a sheet position. */
+  sample(x: number, z: number): LocalIce {
+    const fx = clamp((x + HALF_WIDTH) / SHEET_WIDTH, 0, 1) * (this.cols - 1);
+    const fz = clamp((z + HALF_LENGTH) / SHEET_LENGTH, 0, 1) * (this.rows - 1);
+    const i = Math.min(Math.floor(fx), this.cols - 2);
+    const j = Math.min(Math.floor(fz), this.rows - 2);
+    const tx = fx - i;
+    const tz = fz - j;
+    const k = j * this.cols + i;
+
+    const lerp = (v: number[]): number =>
+      (v[k] * (1 - tx) + v[k + 1] * tx) * (1 - tz) +
+      (v[k + this.cols] * (1 - tx) + v[k + this.cols + 1] * tx) * tz;
+
+    return { friction: lerp(this.friction), curl: lerp(this.curl), fallX: lerp(this.fallX) };
+  }
+}
+
+function nodeX(i: number, cols: number): number {
+  return -HALF_WIDTH + (SHEET_WIDTH * i) / (cols - 1);
+}
+
+function nodeZ(j: number, rows: number): number {
+  return -HALF_LENGTH + (SHEET_LENGTH * j) / (rows - 1);
+}
+
+function clamp(v: number, lo: number, hi: number): number {
+  return Math.max(lo, Math.min(hi, v));
+}
+
+/** Uniform node noise, box-blurred `passes` times and rescaled to peak at ±1. */
+function smoothNoise(rng: () => number, cols: number, rows: number, passes: number): number[] {
+  let v = Array.from({ length: cols * rows }, () => rng() * 2 - 1);
+  for (let p = 0; p < passes; p++) {
+    const next = new Array<number>(v.length);
+    for (let j = 0; j < rows; j++) {
+      for (let i = 0; i < cols; i++) {
+        let sum = 0;
+        let count = 0;
+        for (let dj = -1; dj <= 1; dj++) {
+          for (let di = -1; di <= 1; di++) {
+            const ii = i + di;
+            const jj = j + dj;
+            if (ii < 0 || jj < 0 || ii >= cols || jj >= rows) continue;
+            sum += v[jj * cols + ii];
+            count++;
+          }
+        }
+        next[j * cols + i] = sum / count;
+      }
+    }
+    v = next;
+  }
+  const peak = Math.max(...v.map(Math.abs));
+  return peak > 0 ? v.map((n) => n / peak) : v;
+}
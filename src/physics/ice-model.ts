@@ -1,36 +1,95 @@
-import type { StoneState, IceParams, Vec2 } from "./types";
-import { GRAVITY } from "./types";
+import type { StoneState, StoneProperties, IceParams, LocalIce, Vec2 } from "./types";
+import { DEFAULT_ICE_PARAMS, GRAVITY, UNIFORM_ICE } from "./types";
 import { STONE_MASS } from "../utils/constants";
+import { DEFAULT_STONE_PROPERTIES } from "./stone-set";
+
+/** Accelerations acting on a stone: linear in XZ (m/s²) and angular (rad/s²). */
+export interface IceForces {
+  ax: number;
+  az: number;
+  alphaOmega: number;
+}
+
+export type IceModelKind = "empirical" | "pivot-slide" | "friction-asymmetry";
+
+/**
+ * A theory of how a stone interacts with pebbled ice.
+ * Each model carries its own typed parameter set; `local` scales it for the
+ * ice under the stone (see IceMap).
+ */
+export interface IceModel {
+  readonly kind: IceModelKind;
+  /** `sweep` is the sweeping effect: 0 = none, 1 = the model's full sweep factors */
+  computeForces(stone: StoneState, sweep: number, local?: LocalIce): IceForces;
+  /** Independent copy with the same parameters */
+  clone(): IceModel;
+}
+
+/** Distinguish an ice model from a plain empirical parameter set. */
+export function isIceModel(ice: IceModel | Partial<IceParams> | undefined): ice is IceModel {
+  return !!ice && typeof (ice as IceModel).computeForces === "function";
+}
+
+/**
+ * The default phenomenological model: µ ∝ v^-1/2 friction and a lateral
+ * curl acceleration ∝ 1/v that produces the late break.
+ */
+export class EmpiricalIceModel implements IceModel {
+  readonly kind = "empirical";
+  params: IceParams;
+
+  constructor(params?: Partial<IceParams>) {
+    this.params = { ...DEFAULT_ICE_PARAMS, ...params };
+  }
+
+  computeForces(stone: StoneState, sweep: number, local?: LocalIce): IceForces {
+    return computeIceForces(stone, this.params, sweep, local);
+  }
+
+  clone(): EmpiricalIceModel {
+    return new EmpiricalIceModel(this.params);
+  }
+}
 
 function vecLen(v: Vec2): number {
   return Math.sqrt(v.x * v.x + v.z * v.z);
 }
 
+/**
+ * Scale a quantity by a sweep factor in proportion to the sweeping effect
+ * (0 = unswept, 1 = the full factor).
+ */
+export function sweepScale(factor: number, sweep: number): number {
+  return Math.max(0, 1 - sweep * (1 - factor));
+}
+
 /**
  * Velocity-dependent kinetic friction coefficient.
  * mu(v) = mu0 * v^(-0.5), clamped to muMax at low speeds.
  */
-export function mu(speed: number, ice: IceParams, sweeping: boolean): number {
+export function mu(speed: number, ice: IceParams, sweep: number): number {
   const baseMu = speed > 0.01
     ? Math.min(ice.mu0 * Math.pow(speed, -0.5), ice.muMax)
     : ice.muMax;
-  return sweeping ? baseMu * ice.sweepMuFactor : baseMu;
+  return baseMu * sweepScale(ice.sweepMuFactor, sweep);
 }
 
 /**
  * Compute the acceleration vector for a stone on ice.
  * Returns { ax, az, alphaSpin } — linear accel in XZ and angular accel.
+ * `local` holds the ice map's multipliers and fall at the stone's position.
  */
 export function computeIceForces(
   stone: StoneState,
   ice: IceParams,
-  sweeping: boolean
-): { ax: number; az: number; alphaOmega: number } {
+  sweep: number,
+  local: LocalIce = UNIFORM_ICE
+): IceForces {
   const speed = vecLen(stone.vel);
 
   if (speed < 0.0005) {
     // Stone is essentially stopped — only apply spin decay
-    const alphaOmega = spinDecay(stone.omega, speed, ice);
+    const alphaOmega = spinDecay(stone, speed, ice);
     return { ax: 0, az: 0, alphaOmega };
   }
 
@@ -38,9 +97,9 @@ export function computeIceForces(
   const vHatZ = stone.vel.z / speed;
 
   // Longitudinal friction: opposes velocity
-  const frictionMu = mu(speed, ice, sweeping);
+  const frictionMu = mu(speed, ice, sweep) * local.friction;
   const frictionAccel = frictionMu * GRAVITY;
-  let ax = -frictionAccel * vHatX;
+  let ax = -frictionAccel * vHatX + local.fallX;
   let az = -frictionAccel * vHatZ;
 
   // Curl: lateral acceleration perpendicular to velocity, increasing as stone slows.
@@ -48,7 +107,7 @@ export function computeIceForces(
   // Perpendicular to velocity: rotate v_hat by 90° in the direction determined by omega sign.
   const hasSignificantSpin = Math.abs(stone.omega) > 0.05;
   if (hasSignificantSpin) {
-    const curlCoeff = sweeping ? ice.curlCoeff * ice.sweepCurlFactor : ice.curlCoeff;
+    const curlCoeff = ice.curlCoeff * sweepScale(ice.sweepCurlFactor, sweep) * local.curl;
     // Curl increases at low speed (late break): scale as 1/v, clamped
     const curlMagnitude = curlCoeff * Math.min(1.0 / speed, 8.0);
     // Omega sign determines curl direction
@@ -60,17 +119,29 @@ export function computeIceForces(
     az += -spinSign * curlMagnitude * omegaFactor * (-vHatX);
   }
 
-  const alphaOmega = spinDecay(stone.omega, speed, ice);
+  const alphaOmega = spinDecay(stone, speed, ice);
 
   return { ax, az, alphaOmega };
 }
 
 /**
- * Spin decay torque: angular deceleration opposing current spin direction.
+ * Torque per unit moment of inertia (½·m·r²) the pebble exerts dragging on a
+ * stone's running band.
+ */
+function spinDrag(p: StoneProperties): number {
+  return (p.mass * GRAVITY * p.bandRadius) / (0.5 * p.mass * p.radius * p.radius);
+}
+
+const STANDARD_SPIN_DRAG = spinDrag(DEFAULT_STONE_PROPERTIES);
+
+/**
+ * Spin decay: angular deceleration opposing current spin direction.
+ * kSpin·m·g is the standard stone's; other rocks scale it by their spin drag.
  */
-function spinDecay(omega: number, speed: number, ice: IceParams): number {
-  if (Math.abs(omega) < 0.001) return 0;
+function spinDecay(stone: StoneState, speed: number, ice: IceParams): number {
+  if (Math.abs(stone.omega) < 0.001) return 0;
   // Decay faster when stone is slower (more contact time per pebble)
   const speedFactor = 1.0 + 2.0 / (1.0 + speed);
-  return -ice.kSpin * Math.sign(omega) * speedFactor * STONE_MASS * GRAVITY;
+  const drag = stone.props ? spinDrag(stone.props) / STANDARD_SPIN_DRAG : 1;
+  return -ice.kSpin * Math.sign(stone.omega) * speedFactor * STONE_MASS * GRAVITY * drag;
 }
@@ -0,0 +1,35 @@
+import type { IceParams } from "./types";
+import type { IceModel } from "./ice-model";
+import { EmpiricalIceModel } from "./ice-model";
+import type { PivotSlideParams } from "./pivot-slide-model";
+import { PivotSlideIceModel } from "./pivot-slide-model";
+import type { FrictionAsymmetryParams } from "./friction-asymmetry-model";
+import { FrictionAsymmetryIceModel } from "./friction-asymmetry-model";
+
+/** Serializable description of an ice model and its parameters. */
+export type IceModelSpec =
+  | { kind: "empirical"; params?: Partial<IceParams> }
+  | { kind: "pivot-slide"; params?: Partial<PivotSlideParams> }
+  | { kind: "friction-asymmetry"; params?: Partial<FrictionAsymmetryParams> };
+
+/** Build an ice model from its spec. */
+export function createIceModel(spec: IceModelSpec): IceModel {
+  switch (spec.kind) {
+    case "empirical":
+      return new EmpiricalIceModel(spec.params);
+    case "pivot-slide":
+      return new PivotSlideIceModel(spec.params);
+    case "friction-asymmetry":
+      return new FrictionAsymmetryIceModel(spec.params);
+  }
+}
+
+/** Describe an ice model as a spec (inverse of createIceModel). */
+export function iceModelSpec(model: IceModel): IceModelSpec {
+  if (model instanceof PivotSlideIceModel) return { kind: "pivot-slide", params: { ...model.params } };
+  if (model instanceof FrictionAsymmetryIceModel) {
+    return { kind: "friction-asymmetry", params: { ...model.params } };
+  }
+  if (model instanceof EmpiricalIceModel) return { kind: "empirical", params: { ...model.params } };
+  throw new Error(`Unknown ice model: ${model.kind}`);
+}
@@ -0,0 +1,118 @@
+import type { LocalIce } from "./types";
+import { SHEET_WIDTH, SHEET_LENGTH } from "../utils/constants";
+
+export interface IceWearParams {
+  cols: number; // wear grid nodes across the sheet (X)
+  rows: number; // wear grid nodes along the sheet (Z)
+  frictionLoss: number; // fractional friction drop on fully worn pebble (keener)
+  curlLoss: number; // fractional curl drop on fully worn pebble (straighter)
+  saturation: number; // exposure (stone-seconds) at which ~63% of the full wear is reached
+  sweepWear: number; // extra exposure per second of full sweeping, relative to the stone alone
+  repebbleRecovery: number; // fraction of the wear removed by a re-pebble between ends (0 = none)
+}
+
+export const DEFAULT_ICE_WEAR_PARAMS: IceWearParams = {
+  cols: 17,
+  rows: 151,
+  frictionLoss: 0.05,
+  curlLoss: 0.3,
+  saturation: 10,
+  sweepWear: 2,
+  repebbleRecovery: 0,
+};
+
+/** Serializable wear state: the model parameters and the exposure grid (row-major, rows along Z). */
+export interface IceWearData {
+  params: IceWearParams;
+  exposure: number[];
+}
+
+const HALF_WIDTH = SHEET_WIDTH / 2;
+const HALF_LENGTH = SHEET_LENGTH / 2;
+
+/**
+ * Pebble wear over a game. Moving stones deposit exposure on a grid over the
+ * sheet (time spent, boosted by sweeping); worn ice is keener and straighter.
+ */
+export class IceWear {
+  readonly params: IceWearParams;
+  /** Accumulated exposure per grid node (stone-seconds) */
+  exposure: number[];
+
+  constructor(params?: Partial<IceWearParams>) {
+    this.params = { ...DEFAULT_ICE_WEAR_PARAMS, ...params };
+    const { cols, rows } = this.params;
+    if (!Number.isInteger(cols) || !Number.isInteger(rows) || cols < 2 || rows < 2) {
+      throw new Error(`Ice wear needs at least 2×2 grid nodes, got ${cols}×${rows}`);
+    }
+    this.exposure = new Array<number>(cols * rows).fill(0);
+  }
+
+  static fromJSON(json: string | IceWearData): IceWear {
+    const data = typeof json === "string" ? (JSON.parse(json) as IceWearData) : json;
+    const wear = new IceWear(data.params);
+    if (!Array.isArray(data.exposure) || data.exposure.length !== wear.exposure.length) {
+      throw new Error(`Ice wear exposure must have ${wear.exposure.length} values`);
+    }
+    wear.exposure = [...data.exposure];
+    return wear;
+  }
+
+  toJSON(): IceWearData {
+    return { params: { ...this.params }, exposure: [...this.exposure] };
+  }
+
+  clone(): IceWear {
+    return IceWear.fromJSON(this.toJSON());
+  }
+
+  /** Fresh pebble: forget all wear. */
+  reset(): void {
+    this.exposure.fill(0);
+  }
+
+  /** Re-pebble between ends, removing `recovery` (0–1) of the accumulated wear. */
+  repebble(recovery = this.params.repebbleRecovery): void {
+    const keep = 1 - Math.max(0, Math.min(1, recovery));
+    for (let k = 0; k < this.exposure.length; k++) this.exposure[k] *= keep;
+  }
+
+  /**
+   * Record a moving stone at (x, z) for `dt` seconds, swept with intensity
+   * `sweep` (0–1). Exposure is split bilinearly over the surrounding nodes.
+   */
+  record(x: number, z: number, dt: number, sweep: number): void {
+    const amount = dt * (1 + this.params.sweepWear * sweep);
+    const { k, tx, tz } = this.cell(x, z);
+    const cols = this.params.cols;
+    this.exposure[k] += amount * (1 - tx) * (1 - tz);
+    this.exposure[k + 1] += amount * tx * (1 - tz);
+    this.exposure[k + cols] += amount * (1 - tx) * tz;
+    this.exposure[k + cols + 1] += amount * tx * tz;
+  }
+
+  /** Local friction and curl multipliers of the worn ice at (x, z); wear adds no fall. */
+  sample(x: number, z: number): LocalIce {
+    const { k, tx, tz } = this.cell(x, z);
+    const e = this.exposure;
+    const cols = this.params.cols;
+    const exposure =
+      (e[k] * (1 - tx) + e[k + 1] * tx) * (1 - tz) + (e[k + cols] * (1 - tx) + e[k + cols + 1] * tx) * tz;
+    const worn = 1 - Math.exp(-exposure / this.params.saturation);
+    return {
+      friction: 1 - this.params.frictionLoss * worn,
+      curl: 1 - this.params.curlLoss * worn,
+      fallX: 0,
+    };
+  }
+
+  /** Grid node below-left of (x, z) and the fractional offsets from it. */
+  private cell(x: number, z: number): { k: number; tx: number; tz: number } {
+    const { cols, rows } = this.params;
+    const fx = Math.max(0, Math.min(1, (x + HALF_WIDTH) / SHEET_WIDTH)) * (cols - 1);
+    const fz = Math.max(0, Math.min(1, (z + HALF_LENGTH) / SHEET_LENGTH)) * (rows - 1);
+    const i = Math.min(Math.floor(fx), cols - 2);
+    const j = Math.min(Math.floor(fz), rows - 2);
+    return { k: j * cols + i, tx: fx - i, tz: fz - j };
+  }
+}
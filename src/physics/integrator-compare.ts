@@ -0,0 +1,86 @@
+import type { IntegratorSettings, ShotRelease } from "./types";
+import { DEFAULT_INTEGRATOR_SETTINGS } from "./types";
+import { HeadlessGame } from "./headless";
+import type { BoardState } from "./headless";
+
+/** Reference used when none is given: small adaptive sub-steps with a tight tolerance */
+export const REFERENCE_INTEGRATOR: IntegratorSettings = {
+  kind: "adaptive",
+  dt: DEFAULT_INTEGRATOR_SETTINGS.dt,
+  tolerance: 1e-8,
+  fastPath: false,
+};
+
+export interface IntegratorComparison {
+  settings: IntegratorSettings;
+  /** Physics steps until everything settled */
+  steps: number;
+  /** Wall-clock time of the throw (ms) */
+  timeMs: number;
+  finalState: BoardState;
+  /** Largest final-position difference from the reference over all stones (m) */
+  maxError: number;
+  /** Mean final-position difference from the reference over all stones (m) */
+  meanError: number;
+  /** Stones in play here but not in the reference, or the other way round */
+  playMismatches: number;
+}
+
+export interface CompareOptions {
+  /** Prepare each game before the throw: ice, stones already in play, sweeping, ... */
+  setup?: (game: HeadlessGame) => void;
+  /** Integrator whose result counts as exact */
+  reference?: IntegratorSettings;
+}
+
+function runThrow(
+  release: ShotRelease,
+  settings: IntegratorSettings,
+  setup?: (game: HeadlessGame) => void
+): { steps: number; timeMs: number; finalState: BoardState } {
+  const game = new HeadlessGame();
+  setup?.(game);
+  game.setIntegrator(settings);
+  const start = performance.now();
+  const { steps, finalState } = game.throwAndSettle(release);
+  return { steps, timeMs: performance.now() - start, finalState };
+}
+
+/**
+ * Throw the same shot with each integrator and measure how far the resting
+ * stones end up from a fine reference run, alongside the cost of each run.
+ */
+export function compareIntegrators(
+  release: ShotRelease,
+  configs: Array<Partial<IntegratorSettings>>,
+  options: CompareOptions = {}
+): IntegratorComparison[] {
+  const reference = runThrow(release, options.reference ?? REFERENCE_INTEGRATOR, options.setup);
+  const refStones = new Map(reference.finalState.stones.map((s) => [s.deliveryIndex, s]));
+
+  return configs.map((config) => {
+    const settings = { ...DEFAULT_INTEGRATOR_SETTINGS, ...config };
+    const run = runThrow(release, settings, options.setup);
+    let maxError = 0;
+    let sumError = 0;
+    let compared = 0;
+    let playMismatches = 0;
+    for (const s of run.finalState.stones) {
+      const ref = refStones.get(s.deliveryIndex);
+      if (!ref) continue;
+      if (s.inPlay !== ref.inPlay) playMismatches++;
+      if (!s.inPlay || !ref.inPlay) continue;
+      const err = Math.hypot(s.pos.x - ref.pos.x, s.pos.z - ref.pos.z);
+      maxError = Math.max(maxError, err);
+      sumError += err;
+      compared++;
+    }
+    return {
+      settings,
+      ...run,
+      maxError,
+      meanError: compared > 0 ? sumError / compared : 0,
+      playMismatches,
+    };
+  });
+}
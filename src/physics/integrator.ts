@@ -1,76 +1,385 @@
-import type { StoneState, IceParams } from "./types";
-import { PHYSICS_DT, SETTLE_VEL_THRESHOLD, SETTLE_OMEGA_THRESHOLD } from "./types";
-import { computeIceForces } from "./ice-model";
+import type { StoneState, StepEvents, LocalIceSampler, IntegratorSettings, BoardSettings } from "./types";
+import {
+  DEFAULT_INTEGRATOR_SETTINGS,
+  SETTLE_VEL_THRESHOLD,
+  SETTLE_OMEGA_THRESHOLD,
+  UNIFORM_ICE,
+} from "./types";
+import type { IceModel, IceForces } from "./ice-model";
 import { resolveCollisions } from "./collisions";
+import type { CollisionModel } from "./collision-model";
+import { stoneRadius } from "./stone-set";
+
+/** What the ice forces depend on besides the stone itself. */
+interface ForceContext {
+  ice: IceModel;
+  sweep: number;
+  localIce: LocalIceSampler | null;
+}
+
+/** Kinematic state of one stone. */
+interface Motion {
+  x: number;
+  z: number;
+  vx: number;
+  vz: number;
+  omega: number;
+}
+
+/** Bisection iterations used to locate stops and contacts within a step */
+const EVENT_BISECTIONS = 30;
+/** Smallest adaptive sub-step, as a fraction of the physics step */
+const MIN_SUBSTEP_FRACTION = 1 / 64;
+/** Most times an RK4 step is halved when the stone turns or speeds up too much within it */
+const MAX_SPLITS = 10;
+/** Cosine of the largest turn of a stone's direction accepted in one RK4 step (about 15°) */
+const MAX_TURN_COS = Math.cos(0.25);
 
 /**
- * Advance one physics step (semi-implicit Euler).
+ * Advance one physics step with the chosen integrator.
  * 1. Compute forces / accelerations
  * 2. Update velocities
  * 3. Update positions
  * 4. Resolve collisions
  * 5. Clamp stopped stones
+ * Returns the impacts and removals that happened during the step.
+ * `sweep` is the sweeping effect (see SweepState).
+ * With a `localIce` sampler (ice map, wear), each stone feels the ice at its position.
+ * Impacts are solved with `collisions` (default: the impulse model) and `boards` decide whether
+ * stones bounce off the boards.
  */
 export function stepPhysics(
   stones: StoneState[],
-  ice: IceParams,
-  sweeping: boolean
-): void {
-  const dt = PHYSICS_DT;
+  ice: IceModel,
+  sweep: number,
+  localIce: LocalIceSampler | null = null,
+  settings: IntegratorSettings = DEFAULT_INTEGRATOR_SETTINGS,
+  collisions?: CollisionModel,
+  boards?: BoardSettings
+): StepEvents {
+  const ctx: ForceContext = { ice, sweep, localIce };
 
-  // Apply ice forces (semi-implicit Euler: update vel first, then pos)
+  if (settings.kind === "adaptive") return adaptiveStep(stones, settings, ctx, collisions, boards);
+
+  const start = stones.map((s) => ({ x: s.pos.x, z: s.pos.z }));
   for (const s of stones) {
-    if (!s.inPlay) continue;
-    const speed = Math.sqrt(s.vel.x * s.vel.x + s.vel.z * s.vel.z);
-    if (speed < SETTLE_VEL_THRESHOLD && Math.abs(s.omega) < SETTLE_OMEGA_THRESHOLD) {
-      s.vel.x = 0;
-      s.vel.z = 0;
-      s.omega = 0;
-      continue;
-    }
+    if (settings.kind === "rk4") rk4Advance(s, settings.dt, ctx);
+    else eulerAdvance(s, settings.dt, ctx);
+  }
+  return resolveCollisions(stones, { start, dt: settings.dt }, collisions, boards);
+}
+
+/** Ice forces on a stone where it is now, including the rock's own condition. */
+export function stoneForces(
+  s: StoneState,
+  ice: IceModel,
+  sweep: number,
+  localIce: LocalIceSampler | null = null
+): IceForces {
+  return forcesOn(s, { ice, sweep, localIce });
+}
 
-    const { ax, az, alphaOmega } = computeIceForces(s, ice, sweeping);
+/** See stoneForces. */
+function forcesOn(s: StoneState, ctx: ForceContext): IceForces {
+  let local = ctx.localIce ? ctx.localIce(s.pos.x, s.pos.z) : UNIFORM_ICE;
+  if (s.props) {
+    // The rock's own running band condition on top of the local ice
+    local = {
+      friction: local.friction * s.props.frictionMul,
+      curl: local.curl * s.props.curlMul,
+      fallX: local.fallX,
+    };
+  }
+  return ctx.ice.computeForces(s, ctx.sweep, local);
+}
+
+/** Zero out a stone that has effectively stopped. Returns true if it is at rest. */
+function settleIfResting(s: StoneState): boolean {
+  if (!s.inPlay) return true;
+  const speed = Math.sqrt(s.vel.x * s.vel.x + s.vel.z * s.vel.z);
+  if (speed < SETTLE_VEL_THRESHOLD && Math.abs(s.omega) < SETTLE_OMEGA_THRESHOLD) {
+    s.vel.x = 0;
+    s.vel.z = 0;
+    s.omega = 0;
+    return true;
+  }
+  return false;
+}
 
-    // Update velocity
-    s.vel.x += ax * dt;
-    s.vel.z += az * dt;
-    s.omega += alphaOmega * dt;
+/** Semi-implicit Euler: update velocity first, then position. */
+function eulerAdvance(s: StoneState, dt: number, ctx: ForceContext): void {
+  if (settleIfResting(s)) return;
+  const speed = Math.sqrt(s.vel.x * s.vel.x + s.vel.z * s.vel.z);
 
-    // Prevent velocity reversal from friction overshoot within a single step
-    const newSpeed = Math.sqrt(s.vel.x * s.vel.x + s.vel.z * s.vel.z);
-    if (speed > SETTLE_VEL_THRESHOLD && newSpeed > speed * 1.5) {
-      // Friction caused overshoot — clamp to zero
+  const { ax, az, alphaOmega } = forcesOn(s, ctx);
+
+  // Update velocity
+  s.vel.x += ax * dt;
+  s.vel.z += az * dt;
+  s.omega += alphaOmega * dt;
+
+  // Prevent velocity reversal from friction overshoot within a single step
+  const newSpeed = Math.sqrt(s.vel.x * s.vel.x + s.vel.z * s.vel.z);
+  if (speed > SETTLE_VEL_THRESHOLD && newSpeed > speed * 1.5) {
+    // Friction caused overshoot — clamp to zero
+    s.vel.x = 0;
+    s.vel.z = 0;
+  }
+
+  // Detect if friction reversed direction (dot product check)
+  if (speed > SETTLE_VEL_THRESHOLD) {
+    const dot = s.vel.x * (s.vel.x - ax * dt) + s.vel.z * (s.vel.z - az * dt);
+    if (dot < 0) {
       s.vel.x = 0;
       s.vel.z = 0;
     }
+  }
 
-    // Detect if friction reversed direction (dot product check)
-    if (speed > SETTLE_VEL_THRESHOLD) {
-      const dot = s.vel.x * (s.vel.x - ax * dt) + s.vel.z * (s.vel.z - az * dt);
-      if (dot < 0) {
-        s.vel.x = 0;
-        s.vel.z = 0;
-      }
+  // Stop spin when stone stops moving
+  const finalSpeed = Math.sqrt(s.vel.x * s.vel.x + s.vel.z * s.vel.z);
+  if (finalSpeed < SETTLE_VEL_THRESHOLD) {
+    s.omega = 0;
+  }
+
+  // Update position from new velocity
+  s.pos.x += s.vel.x * dt;
+  s.pos.z += s.vel.z * dt;
+  s.angle += s.omega * dt;
+
+  // Clamp spin if it reversed
+  if (s.omega !== 0 && Math.abs(s.omega) < SETTLE_OMEGA_THRESHOLD) {
+    s.omega = 0;
+  }
+}
+
+function motionOf(s: StoneState): Motion {
+  return { x: s.pos.x, z: s.pos.z, vx: s.vel.x, vz: s.vel.z, omega: s.omega };
+}
+
+/** Time derivative of a stone's motion, evaluated on a scratch copy of the stone. */
+function derivative(probe: StoneState, m: Motion, ctx: ForceContext): Motion {
+  probe.pos.x = m.x;
+  probe.pos.z = m.z;
+  probe.vel.x = m.vx;
+  probe.vel.z = m.vz;
+  probe.omega = m.omega;
+  const { ax, az, alphaOmega } = forcesOn(probe, ctx);
+  return { x: m.vx, z: m.vz, vx: ax, vz: az, omega: alphaOmega };
+}
+
+function addScaled(m: Motion, d: Motion, h: number): Motion {
+  return { x: m.x + d.x * h, z: m.z + d.z * h, vx: m.vx + d.vx * h, vz: m.vz + d.vz * h, omega: m.omega + d.omega * h };
+}
+
+/** True if the stone is still sliding forward in state `m`, relative to `start`. */
+function slidingFrom(start: Motion, m: Motion): boolean {
+  const speed = Math.sqrt(m.vx * m.vx + m.vz * m.vz);
+  return speed >= SETTLE_VEL_THRESHOLD && m.vx * start.vx + m.vz * start.vz > 0;
+}
+
+/**
+ * One classic fourth-order Runge-Kutta step of length h, or null if the stone
+ * stops within it. Friction flips at a stop, so the stages are only valid
+ * while every one of them still slides forward.
+ */
+function rk4(probe: StoneState, m: Motion, h: number, ctx: ForceContext): Motion | null {
+  const k1 = derivative(probe, m, ctx);
+  const m2 = addScaled(m, k1, h / 2);
+  if (!slidingFrom(m, m2)) return null;
+  const k2 = derivative(probe, m2, ctx);
+  const m3 = addScaled(m, k2, h / 2);
+  if (!slidingFrom(m, m3)) return null;
+  const k3 = derivative(probe, m3, ctx);
+  const m4 = addScaled(m, k3, h);
+  if (!slidingFrom(m, m4)) return null;
+  const k4 = derivative(probe, m4, ctx);
+  const w = h / 6;
+  const end = {
+    x: m.x + w * (k1.x + 2 * k2.x + 2 * k3.x + k4.x),
+    z: m.z + w * (k1.z + 2 * k2.z + 2 * k3.z + k4.z),
+    vx: m.vx + w * (k1.vx + 2 * k2.vx + 2 * k3.vx + k4.vx),
+    vz: m.vz + w * (k1.vz + 2 * k2.vz + 2 * k3.vz + k4.vz),
+    omega: m.omega + w * (k1.omega + 2 * k2.omega + 2 * k3.omega + k4.omega),
+  };
+  return slidingFrom(m, end) ? end : null;
+}
+
+/**
+ * True if a step turned the stone too sharply or sped it up beyond what the
+ * fall of the ice allows. Near a stop the curl turns the stone faster than a
+ * coarse RK4 step can follow.
+ */
+function unresolved(start: Motion, end: Motion, h: number, fall: number): boolean {
+  const v0 = Math.sqrt(start.vx * start.vx + start.vz * start.vz);
+  const v1 = Math.sqrt(end.vx * end.vx + end.vz * end.vz);
+  if (v1 > v0 + Math.abs(fall) * h + 1e-9) return true;
+  return v1 > 0 && (start.vx * end.vx + start.vz * end.vz) / (v0 * v1) < MAX_TURN_COS;
+}
+
+/**
+ * RK4 step for one stone. Friction is discontinuous at a stop, so a stone that
+ * would stop within the step is integrated exactly up to its stop and held there.
+ * Steps the stone cannot follow are split in halves.
+ */
+function rk4Advance(s: StoneState, h: number, ctx: ForceContext, depth = 0): void {
+  if (settleIfResting(s)) return;
+  const start = motionOf(s);
+  if (Math.sqrt(start.vx * start.vx + start.vz * start.vz) < SETTLE_VEL_THRESHOLD) {
+    // A stone that has stopped sliding stops spinning too
+    s.vel.x = 0;
+    s.vel.z = 0;
+    s.omega = 0;
+    return;
+  }
+  const probe: StoneState = { ...s, pos: { ...s.pos }, vel: { ...s.vel } };
+
+  let end = rk4(probe, start, h, ctx);
+  const fall = ctx.localIce ? ctx.localIce(start.x, start.z).fallX : 0;
+  if (end && depth < MAX_SPLITS && unresolved(start, end, h, fall)) {
+    rk4Advance(s, h / 2, ctx, depth + 1);
+    rk4Advance(s, h / 2, ctx, depth + 1);
+    return;
+  }
+  if (!end) {
+    // Bisect for the stop time, then come to rest there
+    let lo = 0;
+    let hi = h;
+    for (let i = 0; i < EVENT_BISECTIONS; i++) {
+      const mid = (lo + hi) / 2;
+      if (rk4(probe, start, mid, ctx)) lo = mid;
+      else hi = mid;
     }
+    end = (lo > 0 && rk4(probe, start, lo, ctx)) || { ...start };
+    end.vx = 0;
+    end.vz = 0;
+    end.omega = 0;
+  }
 
-    // Stop spin when stone stops moving
-    const finalSpeed = Math.sqrt(s.vel.x * s.vel.x + s.vel.z * s.vel.z);
-    if (finalSpeed < SETTLE_VEL_THRESHOLD) {
-      s.omega = 0;
+  // Spin decays to zero rather than reversing
+  if (end.omega * start.omega < 0 || Math.abs(end.omega) < SETTLE_OMEGA_THRESHOLD) end.omega = 0;
+
+  s.pos.x = end.x;
+  s.pos.z = end.z;
+  s.vel.x = end.vx;
+  s.vel.z = end.vz;
+  s.angle += ((start.omega + end.omega) / 2) * h;
+  s.omega = end.omega;
+}
+
+type Snapshot = Array<{ motion: Motion; angle: number }>;
+
+function snapshot(stones: StoneState[]): Snapshot {
+  return stones.map((s) => ({ motion: motionOf(s), angle: s.angle }));
+}
+
+function restore(stones: StoneState[], snap: Snapshot): void {
+  stones.forEach((s, i) => {
+    const { motion, angle } = snap[i];
+    s.pos.x = motion.x;
+    s.pos.z = motion.z;
+    s.vel.x = motion.vx;
+    s.vel.z = motion.vz;
+    s.omega = motion.omega;
+    s.angle = angle;
+  });
+}
+
+function overlapping(a: StoneState, b: StoneState): boolean {
+  const dx = b.pos.x - a.pos.x;
+  const dz = b.pos.z - a.pos.z;
+  const r = stoneRadius(a) + stoneRadius(b);
+  return dx * dx + dz * dz < r * r;
+}
+
+/** Pairs of in-play stones touching each other, as "i,j" keys. */
+function contactPairs(stones: StoneState[]): Set<string> {
+  const pairs = new Set<string>();
+  for (let i = 0; i < stones.length; i++) {
+    if (!stones[i].inPlay) continue;
+    for (let j = i + 1; j < stones.length; j++) {
+      if (stones[j].inPlay && overlapping(stones[i], stones[j])) pairs.add(`${i},${j}`);
     }
+  }
+  return pairs;
+}
 
-    // Update position from new velocity
-    s.pos.x += s.vel.x * dt;
-    s.pos.z += s.vel.z * dt;
-    s.angle += s.omega * dt;
+function hasNewContact(stones: StoneState[], before: Set<string>): boolean {
+  for (const pair of contactPairs(stones)) {
+    if (!before.has(pair)) return true;
+  }
+  return false;
+}
 
-    // Clamp spin if it reversed
-    if (s.omega !== 0 && Math.abs(s.omega) < SETTLE_OMEGA_THRESHOLD) {
-      s.omega = 0;
+/**
+ * RK4 with step-doubling error control. The physics step is split into
+ * sub-steps small enough to meet the position tolerance; a sub-step that
+ * brings two stones into contact is cut back by bisection so the collision
+ * is resolved at the moment of impact, and stops land exactly (see rk4Advance).
+ */
+function adaptiveStep(
+  stones: StoneState[],
+  settings: IntegratorSettings,
+  ctx: ForceContext,
+  collisions?: CollisionModel,
+  boards?: BoardSettings
+): StepEvents {
+  const events: StepEvents = { contacts: [], removals: [], boardHits: [] };
+  const minStep = settings.dt * MIN_SUBSTEP_FRACTION;
+  let t = 0;
+  let h = settings.dt;
+
+  while (settings.dt - t > 1e-12) {
+    h = Math.min(h, settings.dt - t);
+    const start = snapshot(stones);
+    const touching = contactPairs(stones);
+
+    // Shrink the sub-step until one full step and two half steps agree
+    for (;;) {
+      for (const s of stones) rk4Advance(s, h, ctx);
+      const full = stones.map(motionOf);
+      restore(stones, start);
+      for (const s of stones) rk4Advance(s, h / 2, ctx);
+      for (const s of stones) rk4Advance(s, h / 2, ctx);
+      let err = 0;
+      stones.forEach((s, i) => {
+        err = Math.max(err, Math.hypot(s.pos.x - full[i].x, s.pos.z - full[i].z));
+      });
+      if (err <= settings.tolerance || h <= minStep) break;
+      restore(stones, start);
+      h /= 2;
     }
+
+    // Land on the first new contact within the sub-step
+    if (hasNewContact(stones, touching)) {
+      let lo = 0;
+      let hi = h;
+      for (let i = 0; i < EVENT_BISECTIONS; i++) {
+        const mid = (lo + hi) / 2;
+        restore(stones, start);
+        for (const s of stones) rk4Advance(s, mid, ctx);
+        if (hasNewContact(stones, touching)) hi = mid;
+        else lo = mid;
+      }
+      restore(stones, start);
+      for (const s of stones) rk4Advance(s, hi, ctx);
+      h = hi;
+    }
+
+    const stepEvents = resolveCollisions(
+      stones,
+      { start: start.map(({ motion }) => ({ x: motion.x, z: motion.z })), dt: h },
+      collisions,
+      boards
+    );
+    events.contacts.push(...stepEvents.contacts);
+    events.removals.push(...stepEvents.removals);
+    events.boardHits.push(...stepEvents.boardHits);
+
+    t += h;
+    h = Math.min(h * 2, settings.dt);
   }
 
-  resolveCollisions(stones);
+  return events;
 }
 
 /**
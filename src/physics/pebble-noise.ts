@@ -0,0 +1,108 @@
+import type { LocalIce } from "./types";
+import { createRng } from "../utils/random";
+import { SHEET_WIDTH, SHEET_LENGTH } from "../utils/constants";
+
+export interface PebbleNoiseParams {
+  seed: number; // PRNG seed; the same seed gives the same pebble, delivery for delivery
+  amplitude: number; // max deviation of the friction multiplier from 1 (0 = smooth ice)
+  curlScale: number; // curl deviation relative to the friction deviation (curl is the more sensitive)
+  correlation: number; // distance (m) over which the pebble varies: the noise grid spacing
+}
+
+export const DEFAULT_PEBBLE_NOISE_PARAMS: PebbleNoiseParams = {
+  seed: 1,
+  amplitude: 0.02,
+  curlScale: 5,
+  correlation: 0.2,
+};
+
+const HALF_WIDTH = SHEET_WIDTH / 2;
+const HALF_LENGTH = SHEET_LENGTH / 2;
+
+/**
+ * Seeded pebble noise: small, spatially correlated friction and curl
+ * perturbations, so no two deliveries travel the same ice. Random node values
+ * on a grid `correlation` apart are smoothly interpolated between nodes; each
+ * delivery draws a fresh grid from the seed, so a game with the same seed and
+ * throws plays out identically.
+ */
+export class PebbleNoise {
+  readonly params: PebbleNoiseParams;
+  /** Deliveries thrown on this pebble so far */
+  delivery = 0;
+  private readonly cols: number;
+  private readonly rows: number;
+  private friction: Float64Array | null = null;
+  private curl: Float64Array | null = null;
+
+  constructor(params?: Partial<PebbleNoiseParams>) {
+    this.params = { ...DEFAULT_PEBBLE_NOISE_PARAMS, ...params };
+    const { seed, amplitude, curlScale, correlation } = this.params;
+    if (!Number.isInteger(seed)) throw new Error(`Pebble noise seed must be an integer, got ${seed}`);
+    if (!(amplitude >= 0 && amplitude * Math.max(1, curlScale) < 1)) {
+      throw new Error(`Pebble noise amplitude must keep friction and curl positive, got ${amplitude}`);
+    }
+    if (!(curlScale >= 0)) throw new Error(`Pebble noise curl scale must be non-negative, got ${curlScale}`);
+    if (!(correlation > 0)) throw new Error(`Pebble noise correlation must be positive, got ${correlation}`);
+    this.cols = Math.ceil(SHEET_WIDTH / correlation) + 1;
+    this.rows = Math.ceil(SHEET_LENGTH / correlation) + 1;
+  }
+
+  clone(): PebbleNoise {
+    const noise = new PebbleNoise(this.params);
+    noise.delivery = this.delivery;
+    return noise;
+  }
+
+  /** Back to the first delivery's pebble. */
+  reset(): void {
+    this.delivery = 0;
+    this.friction = this.curl = null;
+  }
+
+  /** Move on to the pebble of the next delivery. */
+  nextDelivery(): void {
+    this.delivery++;
+    this.friction = this.curl = null;
+  }
+
+  /** Friction and curl multipliers of the pebble at (x, z); pebble adds no fall. */
+  sample(x: number, z: number): LocalIce {
+    if (!this.friction || !this.curl) this.generate();
+    const { amplitude, curlScale, correlation } = this.params;
+    const fx = Math.max(0, Math.min(this.cols - 1, (x + HALF_WIDTH) / correlation));
+    const fz = Math.max(0, Math.min(this.rows - 1, (z + HALF_LENGTH) / correlation));
+    const i = Math.min(Math.floor(fx), this.cols - 2);
+    const j = Math.min(Math.floor(fz), this.rows - 2);
+    const tx = smoothstep(fx - i);
+    const tz = smoothstep(fz - j);
+    const k = j * this.cols + i;
+    const n = interpolate(this.friction!, k, this.cols, tx, tz);
+    const c = interpolate(this.curl!, k, this.cols, tx, tz);
+    return { friction: 1 + amplitude * n, curl: 1 + amplitude * curlScale * c, fallX: 0 };
+  }
+
+  /** Node values in [-1, 1] for the current delivery, drawn from the seed. */
+  private generate(): void {
+    const rng = createRng((this.params.seed + Math.imul(this.delivery, 0x9e3779b9)) >>> 0);
+    const n = this.cols * this.rows;
+    this.friction = new Float64Array(n);
+    this.curl = new Float64Array(n);
+    for (let k = 0; k < n; k++) {
+      this.friction[k] = rng() * 2 - 1;
+      this.curl[k] = rng() * 2 - 1;
+    }
+  }
+}
+
+/** Eases between nodes so the noise has no kinks at grid lines. */
+function smoothstep(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+function interpolate(values: Float64Array, k: number, cols: number, tx: number, tz: number): number {
+  return (
+    (values[k] * (1 - tx) + values[k + 1] * tx) * (1 - tz) +
+    (values[k + cols] * (1 - tx) + values[k + cols + 1] * tx) * tz
+  );
+}
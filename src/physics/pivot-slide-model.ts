@@ -0,0 +1,73 @@
+import type { StoneState, LocalIce } from "./types";
+import { GRAVITY, UNIFORM_ICE } from "./types";
+import type { IceModel, IceForces } from "./ice-model";
+import { sweepScale } from "./ice-model";
+
+export interface PivotSlideParams {
+  muSlide: number; // speed-independent sliding friction coefficient
+  kPivot: number; // change of travel direction per radian of rotation while pivoting (rad/rad)
+  vPivot: number; // speed (m/s) below which pivoting dominates sliding
+  spinDecel: number; // base angular deceleration (rad/s²)
+  sweepMuFactor: number; // multiplier on muSlide when sweeping (< 1 = less friction)
+  sweepCurlFactor: number; // multiplier on pivoting when sweeping (< 1 = straighter)
+}
+
+export const DEFAULT_PIVOT_SLIDE_PARAMS: PivotSlideParams = {
+  muSlide: 0.0068,
+  kPivot: 0.0085,
+  vPivot: 0.4,
+  spinDecel: 0.016,
+  sweepMuFactor: 0.8,
+  sweepCurlFactor: 0.5,
+};
+
+/**
+ * Pivot-slide model (after Shegelski & Lozowski): the running band alternately
+ * slides and briefly pivots about pebble tops. Each pivot turns the direction of
+ * travel slightly, so the turning rate is proportional to the rotation rate and
+ * grows as the stone slows and spends more of its time pivoting. Friction is a
+ * plain sliding coefficient.
+ */
+export class PivotSlideIceModel implements IceModel {
+  readonly kind = "pivot-slide";
+  params: PivotSlideParams;
+
+  constructor(params?: Partial<PivotSlideParams>) {
+    this.params = { ...DEFAULT_PIVOT_SLIDE_PARAMS, ...params };
+  }
+
+  computeForces(stone: StoneState, sweep: number, local: LocalIce = UNIFORM_ICE): IceForces {
+    const p = this.params;
+    const speed = Math.sqrt(stone.vel.x * stone.vel.x + stone.vel.z * stone.vel.z);
+    // Fraction of the time spent pivoting rather than sliding
+    const pivotFraction = 1 / (1 + speed / p.vPivot);
+    const alphaOmega = Math.abs(stone.omega) < 0.001
+      ? 0
+      : -p.spinDecel * Math.sign(stone.omega) * (1 + pivotFraction);
+
+    if (speed < 0.0005) {
+      return { ax: 0, az: 0, alphaOmega };
+    }
+
+    const vHatX = stone.vel.x / speed;
+    const vHatZ = stone.vel.z / speed;
+
+    const frictionMu = p.muSlide * sweepScale(p.sweepMuFactor, sweep) * local.friction;
+    let ax = -frictionMu * GRAVITY * vHatX + local.fallX;
+    let az = -frictionMu * GRAVITY * vHatZ;
+
+    // Turning rate dφ/dt = kPivot·|ω|·(pivot fraction); lateral accel = v·dφ/dt.
+    // Same handedness as the empirical model: positive omega curls to the right of travel.
+    const kPivot = p.kPivot * sweepScale(p.sweepCurlFactor, sweep) * local.curl;
+    const lateral = speed * kPivot * Math.abs(stone.omega) * pivotFraction;
+    const spinSign = Math.sign(stone.omega);
+    ax += -spinSign * lateral * vHatZ;
+    az += -spinSign * lateral * (-vHatX);
+
+    return { ax, az, alphaOmega };
+  }
+
+  clone(): PivotSlideIceModel {
+    return new PivotSlideIceModel(this.params);
+  }
+}
@@ -1,11 +1,25 @@
-import type { StoneState, Team } from "./types";
+import type {
+  StoneState,
+  Team,
+  EndScore,
+  CountingStone,
+  StoneRemoval,
+  SheetLine,
+  Vec2,
+  PowerPlaySide,
+} from "./types";
+import { SETTLE_VEL_THRESHOLD } from "./types";
 import {
   SHEET_WIDTH,
   BACK_LINE_Z,
   HOG_Z,
   TEE_Z,
+  RING_12,
+  RING_8,
+  RING_4,
   STONE_RADIUS,
 } from "../utils/constants";
+import { stoneRadius } from "./stone-set";
 
 const HALF_WIDTH = SHEET_WIDTH / 2;
 
@@ -19,14 +33,18 @@ const HALF_WIDTH = SHEET_WIDTH / 2;
 /**
  * Check and enforce out-of-play rules. Mutates stones in place.
  * `deliveredStoneIndex` is the index of the just-delivered stone (for hog-line violation check),
- * or -1 if no delivery in progress.
+ * or -1 if no delivery in progress. With `backLineAtRest`, stones past the back line
+ * are only out once they stop there (they may still rebound off the end boards).
+ * Returns the stones removed.
  */
 export function applyRules(
   stones: StoneState[],
   _deliveredStoneIndex: number,
-  targetEnd: -1 | 1
-): void {
+  targetEnd: -1 | 1,
+  backLineAtRest = false
+): StoneRemoval[] {
   const backLine = targetEnd * BACK_LINE_Z;
+  const removals: StoneRemoval[] = [];
 
   for (let i = 0; i < stones.length; i++) {
     const s = stones[i];
@@ -34,85 +52,252 @@ export function applyRules(
 
     // Out of bounds: side walls (generous — wall collision usually handles this,
     // but if somehow past the boards, remove)
-    if (Math.abs(s.pos.x) > HALF_WIDTH + STONE_RADIUS * 2) {
+    const r = stoneRadius(s);
+    if (Math.abs(s.pos.x) > HALF_WIDTH + r * 2) {
       s.inPlay = false;
+      removals.push({ index: i, reason: "SIDE_BOARD" });
       continue;
     }
 
     // Past the back line (behind the target house)
-    if (targetEnd === -1 && s.pos.z < backLine - STONE_RADIUS) {
+    if (backLineAtRest && Math.hypot(s.vel.x, s.vel.z) > SETTLE_VEL_THRESHOLD) continue;
+    if (targetEnd === -1 && s.pos.z < backLine - r) {
       s.inPlay = false;
+      removals.push({ index: i, reason: "BACK_LINE" });
       continue;
     }
-    if (targetEnd === 1 && s.pos.z > backLine + STONE_RADIUS) {
+    if (targetEnd === 1 && s.pos.z > backLine + r) {
       s.inPlay = false;
+      removals.push({ index: i, reason: "BACK_LINE" });
       continue;
     }
   }
+
+  return removals;
+}
+
+/** Sheet lines in the order a delivery meets them, at their distance along the delivery direction */
+const SHEET_LINES: ReadonlyArray<{ line: SheetLine; z: number }> = [
+  { line: "NEAR_HOG", z: -HOG_Z },
+  { line: "FAR_HOG", z: HOG_Z },
+  { line: "TEE", z: TEE_Z },
+  { line: "BACK", z: BACK_LINE_Z },
+];
+
+const NO_LINES: readonly SheetLine[] = [];
+
+/**
+ * Lines whose position a stone centre passed while moving from `prevZ` to `z`,
+ * in the order the delivery meets them.
+ */
+export function linesCrossed(prevZ: number, z: number, targetEnd: -1 | 1): readonly SheetLine[] {
+  let crossed: SheetLine[] | null = null;
+  for (const l of SHEET_LINES) {
+    const lineZ = targetEnd * l.z;
+    if ((prevZ - lineZ) * (z - lineZ) < 0 || (z === lineZ && prevZ !== z)) (crossed ??= []).push(l.line);
+  }
+  return crossed ?? NO_LINES;
 }
 
 /**
  * Check hog line violation for a delivered stone that has come to rest.
- * A stone must fully cross the far hog line to be in play.
+ * A stone must fully cross the far hog line to be in play, unless it struck
+ * a stone already in play. Only the delivered stone is subject to this check;
+ * stones it knocks back behind the hog line remain in play.
  */
 export function checkHogLineViolation(
   stone: StoneState,
-  targetEnd: -1 | 1
+  targetEnd: -1 | 1,
+  struckStoneInPlay = false
 ): boolean {
+  if (struckStoneInPlay) return false;
+
   const hogLine = targetEnd * HOG_Z;
   if (targetEnd === -1) {
     // Moving toward -Z: stone must be past (less than) hogLine
-    return stone.pos.z + STONE_RADIUS > hogLine;
+    return stone.pos.z + stoneRadius(stone) > hogLine;
   } else {
-    return stone.pos.z - STONE_RADIUS < hogLine;
+    return stone.pos.z - stoneRadius(stone) < hogLine;
+  }
+}
+
+/**
+ * Check whether a stone lies in the free guard zone: between the far hog line
+ * and the tee line, excluding the house. Stones biting the hog line count.
+ */
+export function isInFreeGuardZone(stone: StoneState, targetEnd: -1 | 1): boolean {
+  if (!stone.inPlay) return false;
+
+  // Distance in front of the tee line, measured back toward the hog line
+  const teeZ = targetEnd * TEE_Z;
+  const fromTee = -targetEnd * (stone.pos.z - teeZ);
+  const r = stoneRadius(stone);
+  if (fromTee < 0 || fromTee > TEE_Z - HOG_Z + r) return false;
+
+  const distToTee = Math.sqrt(stone.pos.x ** 2 + (stone.pos.z - teeZ) ** 2);
+  return distToTee > RING_12 + r;
+}
+
+/**
+ * Check the free guard zone (N-rock) rule for a delivery that has come to rest.
+ * `before` holds the stones as they were before the delivery. A violation occurs
+ * when one of the first `rockCount` deliveries puts an opposing stone that was
+ * in the free guard zone out of play. With `allStones` (mixed doubles) no stone
+ * of either team may be put out of play.
+ */
+export function checkFreeGuardZoneViolation(
+  before: StoneState[],
+  after: StoneState[],
+  delivered: StoneState,
+  targetEnd: -1 | 1,
+  rockCount: number,
+  allStones = false
+): boolean {
+  if (delivered.deliveryIndex >= rockCount) return false;
+
+  for (const prev of before) {
+    if (!prev.inPlay) continue;
+    if (!allStones && (prev.team === delivered.team || !isInFreeGuardZone(prev, targetEnd))) continue;
+    const now = after.find((s) => s.deliveryIndex === prev.deliveryIndex);
+    if (now && !now.inPlay) return true;
+  }
+  return false;
+}
+
+/**
+ * Check whether a stone touches the centre line.
+ */
+export function touchesCentreLine(stone: StoneState): boolean {
+  return Math.abs(stone.pos.x) <= stoneRadius(stone);
+}
+
+/**
+ * Check the no-tick rule for a delivery that has come to rest.
+ * During the first `rockCount` deliveries, an opposing free guard zone stone
+ * touching the centre line must not be moved so that it no longer touches it.
+ * Stones put out of play are covered by the free guard zone rule.
+ */
+export function checkNoTickViolation(
+  before: StoneState[],
+  after: StoneState[],
+  delivered: StoneState,
+  targetEnd: -1 | 1,
+  rockCount: number
+): boolean {
+  if (delivered.deliveryIndex >= rockCount) return false;
+
+  for (const prev of before) {
+    if (prev.team === delivered.team || !isInFreeGuardZone(prev, targetEnd)) continue;
+    if (!touchesCentreLine(prev)) continue;
+    const now = after.find((s) => s.deliveryIndex === prev.deliveryIndex);
+    if (now && now.inPlay && !touchesCentreLine(now)) return true;
   }
+  return false;
+}
+
+/** Gap between the front of the house and the back edge of the mixed doubles guard (3 ft). */
+const MD_GUARD_GAP = 0.915;
+
+/**
+ * Mixed doubles positioned stones for the target house.
+ * Standard: a centre guard in front of the house and a stone at the back of the
+ * 4-foot ring. Power play: the house stone moves to the side so its back edge
+ * is on the tee line, half inside the 8-foot ring, with the guard level with it.
+ */
+export function positionedStones(
+  targetEnd: -1 | 1,
+  powerPlay: PowerPlaySide | null = null
+): { guard: Vec2; house: Vec2 } {
+  const teeZ = targetEnd * TEE_Z;
+  const guardZ = teeZ - targetEnd * (RING_12 + MD_GUARD_GAP + STONE_RADIUS);
+
+  if (!powerPlay) {
+    return {
+      guard: { x: 0, z: guardZ },
+      house: { x: 0, z: teeZ + targetEnd * (RING_4 - STONE_RADIUS) },
+    };
+  }
+
+  // Thrower faces the target end; their right-hand side is -targetEnd * X
+  const sideX = (powerPlay === "RIGHT" ? -targetEnd : targetEnd) * RING_8;
+  return {
+    guard: { x: sideX, z: guardZ },
+    house: { x: sideX, z: teeZ - targetEnd * STONE_RADIUS },
+  };
 }
 
+/**
+ * Distance recorded for a Last Stone Draw that finishes outside the house
+ * or out of play (WCF: 199.6 cm).
+ */
+export const LSD_MISS_DISTANCE = 1.996;
+
+/**
+ * Measure a Last Stone Draw: distance from the tee to the stone centre,
+ * or LSD_MISS_DISTANCE if the stone is not in the house.
+ */
+export function measureDrawShot(stone: StoneState, targetEnd: -1 | 1): number {
+  if (!stone.inPlay) return LSD_MISS_DISTANCE;
+  const dist = Math.sqrt(stone.pos.x ** 2 + (stone.pos.z - targetEnd * TEE_Z) ** 2);
+  return dist > RING_12 + stoneRadius(stone) ? LSD_MISS_DISTANCE : dist;
+}
+
+/**
+ * Two measurements closer than this are treated as equal (m).
+ */
+const MEASURE_TOLERANCE = 1e-6;
+
 /**
  * Score an end. Returns { red, yellow } points.
- * Only the team with the stone closest to the button scores.
- * They score 1 point for each of their stones closer than the
- * closest opposing stone.
+ * Only stones in the house (touching the 12-foot ring) are eligible.
+ * The team with the stone closest to the button scores 1 point for each
+ * of their stones closer than the closest opposing stone in the house.
+ * If the two shot stones of opposing teams are equidistant, the end is blank.
  */
 export function scoreEnd(
   stones: StoneState[],
   targetEnd: -1 | 1
-): { red: number; yellow: number; winner: Team | null } {
+): EndScore {
   const tee = { x: 0, z: targetEnd * TEE_Z };
 
-  const inPlay = stones.filter((s) => s.inPlay);
-  if (inPlay.length === 0) return { red: 0, yellow: 0, winner: null };
-
-  // Compute distances to button for each stone
-  const withDist = inPlay.map((s) => ({
-    team: s.team,
-    dist: Math.sqrt(
-      (s.pos.x - tee.x) ** 2 + (s.pos.z - tee.z) ** 2
-    ),
-  }));
+  // Distances to button for each stone in the house, closest first
+  const inHouse: CountingStone[] = [];
+  for (const s of stones) {
+    if (!s.inPlay) continue;
+    const dist = Math.sqrt((s.pos.x - tee.x) ** 2 + (s.pos.z - tee.z) ** 2);
+    if (dist > RING_12 + stoneRadius(s)) continue;
+    inHouse.push({ deliveryIndex: s.deliveryIndex, team: s.team, dist });
+  }
+  inHouse.sort((a, b) => a.dist - b.dist);
 
-  withDist.sort((a, b) => a.dist - b.dist);
+  if (inHouse.length === 0) return { red: 0, yellow: 0, winner: null, counting: [] };
 
-  const closestTeam = withDist[0].team;
+  const closestTeam = inHouse[0].team;
   const otherTeam: Team = closestTeam === "red" ? "yellow" : "red";
 
   // Find the closest stone of the other team
-  const closestOther = withDist.find((s) => s.team === otherTeam);
+  const closestOther = inHouse.find((s) => s.team === otherTeam);
   const cutoff = closestOther ? closestOther.dist : Infinity;
 
-  // Count scoring stones
-  let score = 0;
-  for (const s of withDist) {
-    if (s.team === closestTeam && s.dist < cutoff) {
-      score++;
+  // Shot stones tied: neither team scores
+  if (cutoff - inHouse[0].dist <= MEASURE_TOLERANCE) {
+    return { red: 0, yellow: 0, winner: null, counting: [] };
+  }
+
+  // Count scoring stones; a stone tied with the opposing shot stone does not count
+  const counting: CountingStone[] = [];
+  for (const s of inHouse) {
+    if (s.team === closestTeam && cutoff - s.dist > MEASURE_TOLERANCE) {
+      counting.push(s);
     } else {
       break;
     }
   }
 
   return {
-    red: closestTeam === "red" ? score : 0,
-    yellow: closestTeam === "yellow" ? score : 0,
+    red: closestTeam === "red" ? counting.length : 0,
+    yellow: closestTeam === "yellow" ? counting.length : 0,
     winner: closestTeam,
+    counting,
   };
 }
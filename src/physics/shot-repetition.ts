@@ -0,0 +1,96 @@
+import type { ShotRelease, SweepPlan, Vec2 } from "./types";
+import type { HeadlessGame, ThrowResult, BoardState } from "./headless";
+import type { SkillLevel, SkillProfile } from "./release-error";
+import { ReleaseError } from "./release-error";
+
+export interface RepeatOptions {
+  /** Number of noisy throws (default 100) */
+  repetitions?: number;
+  /** Thrower's error: a ReleaseError, skill level or error sizes; default: the game's own release error */
+  error?: ReleaseError | SkillLevel | Partial<SkillProfile>;
+  /** Seed for an error given as a skill level or sizes */
+  seed?: number;
+  /** Sweep plan followed on every throw */
+  sweep?: SweepPlan;
+}
+
+export interface ShotOutcome {
+  /** The release as thrown */
+  release: ShotRelease;
+  finalState: BoardState;
+  /** Where the thrown stone came to rest; null if it ended out of play */
+  position: Vec2 | null;
+  success: boolean;
+}
+
+export interface ShotDistribution {
+  outcomes: ShotOutcome[];
+  /** Fraction of throws for which the predicate held */
+  successRate: number;
+  /** Fraction of throws whose stone stayed in play */
+  inPlayRate: number;
+  /** Mean resting position of the stones that stayed in play; null if none did */
+  mean: Vec2 | null;
+  /** Covariance of those resting positions (m²) */
+  covariance: { xx: number; xz: number; zz: number };
+}
+
+/**
+ * Throw one intended shot many times from the same position, each on a copy
+ * of `game` with its own execution error, and report where the stone comes to
+ * rest and how often `success` holds. `success` sees each throw's result and
+ * the game after it. Positions are of the thrown stone, so not available in
+ * the Last Stone Draw (which clears the sheet after each stone).
+ */
+export function repeatShot(
+  game: HeadlessGame,
+  intended: ShotRelease,
+  success: (result: ThrowResult, game: HeadlessGame) => boolean,
+  options: RepeatOptions = {}
+): ShotDistribution {
+  const repetitions = options.repetitions ?? 100;
+  const error =
+    options.error === undefined
+      ? game.getReleaseError()?.clone()
+      : options.error instanceof ReleaseError
+        ? options.error.clone()
+        : new ReleaseError(options.error, options.seed);
+  if (!error) throw new Error("repeatShot needs a release error: pass `error` or set one on the game");
+
+  const outcomes: ShotOutcome[] = [];
+  for (let i = 0; i < repetitions; i++) {
+    const trial = game.clone();
+    trial.setReleaseError(null);
+    const deliveryIndex = trial.getState().deliveryCount;
+    const result = trial.throwAndSettle(error.apply(intended), options.sweep);
+    const stone = result.finalState.stones.find((s) => s.deliveryIndex === deliveryIndex && s.inPlay);
+    outcomes.push({
+      release: result.release,
+      finalState: result.finalState,
+      position: stone ? { ...stone.pos } : null,
+      success: success(result, trial),
+    });
+  }
+
+  const positions = outcomes.flatMap((o) => (o.position ? [o.position] : []));
+  const n = positions.length;
+  const mean = n > 0 ? { x: sum(positions, (p) => p.x) / n, z: sum(positions, (p) => p.z) / n } : null;
+  const covariance = { xx: 0, xz: 0, zz: 0 };
+  if (mean && n > 1) {
+    covariance.xx = sum(positions, (p) => (p.x - mean.x) ** 2) / (n - 1);
+    covariance.xz = sum(positions, (p) => (p.x - mean.x) * (p.z - mean.z)) / (n - 1);
+    covariance.zz = sum(positions, (p) => (p.z - mean.z) ** 2) / (n - 1);
+  }
+
+  return {
+    outcomes,
+    successRate: repetitions > 0 ? outcomes.filter((o) => o.success).length / repetitions : 0,
+    inPlayRate: repetitions > 0 ? n / repetitions : 0,
+    mean,
+    covariance,
+  };
+}
+
+function sum(points: Vec2[], f: (p: Vec2) => number): number {
+  return points.reduce((total, p) => total + f(p), 0);
+}
@@ -0,0 +1,78 @@
+import type { StoneProperties, StoneState, Team } from "./types";
+import { STONE_MASS, STONE_RADIUS } from "../utils/constants";
+
+export const DEFAULT_STONE_PROPERTIES: StoneProperties = {
+  mass: STONE_MASS,
+  radius: STONE_RADIUS,
+  bandRadius: 0.0625,
+  frictionMul: 1,
+  curlMul: 1,
+};
+
+export function stoneMass(s: StoneState): number {
+  return s.props?.mass ?? STONE_MASS;
+}
+
+export function stoneRadius(s: StoneState): number {
+  return s.props?.radius ?? STONE_RADIUS;
+}
+
+/** JSON form of a stone set: each team's rocks in throwing order, standard values where omitted. */
+export interface StoneSetData {
+  name?: string;
+  red: Array<Partial<StoneProperties>>;
+  yellow: Array<Partial<StoneProperties>>;
+}
+
+/**
+ * A matched (or not so matched) set of rocks. Each team throws its rocks in
+ * order, one per delivery of an end, wrapping around if it has fewer rocks
+ * than deliveries.
+ */
+export class StoneSet {
+  readonly name: string;
+  readonly red: StoneProperties[];
+  readonly yellow: StoneProperties[];
+
+  constructor(data: StoneSetData) {
+    this.name = data.name ?? "";
+    this.red = StoneSet.resolve(data.red, "red");
+    this.yellow = StoneSet.resolve(data.yellow, "yellow");
+  }
+
+  static fromJSON(json: string | StoneSetData): StoneSet {
+    return new StoneSet(typeof json === "string" ? (JSON.parse(json) as StoneSetData) : json);
+  }
+
+  toJSON(): StoneSetData {
+    return {
+      name: this.name,
+      red: this.red.map((p) => ({ ...p })),
+      yellow: this.yellow.map((p) => ({ ...p })),
+    };
+  }
+
+  /** Properties of `team`'s rock for its n-th stone of the end (0-based). */
+  propsFor(team: Team, n: number): StoneProperties {
+    const rocks = this[team];
+    return { ...rocks[n % rocks.length] };
+  }
+
+  private static resolve(rocks: Array<Partial<StoneProperties>> | undefined, team: Team): StoneProperties[] {
+    if (!Array.isArray(rocks) || rocks.length === 0) {
+      throw new Error(`Stone set needs at least one ${team} rock`);
+    }
+    return rocks.map((rock, i) => {
+      const props = { ...DEFAULT_STONE_PROPERTIES, ...rock };
+      for (const key of Object.keys(DEFAULT_STONE_PROPERTIES) as Array<keyof StoneProperties>) {
+        if (!Number.isFinite(props[key]) || props[key] <= 0) {
+          throw new Error(`Stone set ${team} rock ${i + 1}: invalid ${key}`);
+        }
+      }
+      if (props.bandRadius >= props.radius) {
+        throw new Error(`Stone set ${team} rock ${i + 1}: running band must be inside the stone`);
+      }
+      return props;
+    });
+  }
+}
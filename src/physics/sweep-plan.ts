@@ -0,0 +1,50 @@
+import type { SweepAction, SweepContext, SweepMark, SweepPlan } from "./types";
+
+export const DEFAULT_POLICY_INTERVAL = 12;
+
+/** Whether a delivery has reached a sweep mark. */
+export function markReached(mark: SweepMark, ctx: Omit<SweepContext, "stone">): boolean {
+  if ("time" in mark) return ctx.time >= mark.time;
+  if ("distance" in mark) return ctx.distance >= mark.distance;
+  return ctx.crossed.includes(mark.line);
+}
+
+/**
+ * Follows a sweep plan through one delivery, turning its segments and policy
+ * into a sweep action for each physics step.
+ */
+export class SweepPlanRunner {
+  readonly plan: SweepPlan;
+  private policyAction: Partial<SweepAction> | null = null;
+
+  constructor(plan: SweepPlan) {
+    this.plan = plan;
+  }
+
+  /**
+   * Sweep action for physics step `step` of the delivery. `context` is only
+   * built on the steps the policy is called.
+   */
+  next(step: number, progress: Omit<SweepContext, "stone">, context: () => SweepContext): Partial<SweepAction> {
+    const { segments, policy } = this.plan;
+    let action: Partial<SweepAction> = { intensity: 0 };
+
+    const active = segments?.find((seg) => markReached(seg.from, progress) && !(seg.to && markReached(seg.to, progress)));
+    if (active) {
+      action = { intensity: active.intensity ?? 1 };
+      if (active.sweepers !== undefined) action.sweepers = active.sweepers;
+      if (active.placement !== undefined) action.placement = active.placement;
+    }
+
+    if (policy) {
+      const interval = Math.max(1, Math.round(this.plan.policyInterval ?? DEFAULT_POLICY_INTERVAL));
+      if (step % interval === 0) {
+        const decision = policy(context());
+        if (decision) this.policyAction = { ...this.policyAction, ...decision };
+      }
+      if (this.policyAction) action = { ...action, ...this.policyAction };
+    }
+
+    return action;
+  }
+}
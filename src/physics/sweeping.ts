@@ -0,0 +1,76 @@
+import type { SweepAction, SweepPlacement } from "./types";
+
+export interface SweepParams {
+  heatRiseTime: number; // time constant (s) for the swept ice to warm up toward the sweep drive
+  heatDecayTime: number; // time constant (s) for the warmed ice to cool once sweeping eases off
+  sweeperEffect: number[]; // drive at full intensity by number of sweepers (index = sweepers)
+  broadEffect: number; // drive multiplier when sweeping broadly instead of just in front of the stone
+}
+
+export const DEFAULT_SWEEP_PARAMS: SweepParams = {
+  heatRiseTime: 0.6,
+  heatDecayTime: 1.2,
+  sweeperEffect: [0, 0.65, 1, 1.1],
+  broadEffect: 0.6,
+};
+
+/**
+ * Sweeping as a continuous input with thermal memory. The brushes warm the
+ * ice ahead of the stone toward a drive set by intensity, sweepers and
+ * placement; the warmth (`effect`, about 0–1) is what lowers friction and curl, so
+ * a short burst does less than sustained sweeping and lingers briefly after.
+ */
+export class SweepState {
+  readonly params: SweepParams;
+  intensity = 0; // brush effort, 0–1
+  sweepers = 2;
+  placement: SweepPlacement = "FRONT";
+  /** Current warmth of the swept ice; 1 = two sweepers at full effort, just in front */
+  heat = 0;
+
+  constructor(params?: Partial<SweepParams>) {
+    this.params = { ...DEFAULT_SWEEP_PARAMS, ...params };
+  }
+
+  /** True while anyone is sweeping */
+  get active(): boolean {
+    return this.drive > 0;
+  }
+
+  /** Heat level the current sweeping tends toward */
+  get drive(): number {
+    const { sweeperEffect, broadEffect } = this.params;
+    const sweepers = Math.max(0, Math.min(Math.round(this.sweepers), sweeperEffect.length - 1));
+    const placement = this.placement === "BROAD" ? broadEffect : 1;
+    return Math.max(0, Math.min(1, this.intensity)) * sweeperEffect[sweepers] * placement;
+  }
+
+  /** Effect of sweeping on the ice under the stones: 0 = none, 1 = the ice params' full sweep factors */
+  get effect(): number {
+    return this.heat;
+  }
+
+  /** Apply a sweep action; omitted fields keep their current value. */
+  set(action: Partial<SweepAction>): void {
+    if (action.intensity !== undefined) this.intensity = Math.max(0, Math.min(1, action.intensity));
+    if (action.sweepers !== undefined) this.sweepers = action.sweepers;
+    if (action.placement !== undefined) this.placement = action.placement;
+  }
+
+  /** Advance the heat model by `dt` seconds. */
+  update(dt: number): void {
+    const drive = this.drive;
+    const tau = drive > this.heat ? this.params.heatRiseTime : this.params.heatDecayTime;
+    this.heat = drive + (this.heat - drive) * Math.exp(-dt / tau);
+    if (this.heat < 1e-4 && drive === 0) this.heat = 0;
+  }
+
+  clone(): SweepState {
+    const copy = new SweepState(this.params);
+    copy.intensity = this.intensity;
+    copy.sweepers = this.sweepers;
+    copy.placement = this.placement;
+    copy.heat = this.heat;
+    return copy;
+  }
+}
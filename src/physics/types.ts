@@ -14,8 +14,92 @@ export interface StoneState {
   inPlay: boolean;
   /** Index of this stone in the delivery order (0-15) */
   deliveryIndex: number;
+  /** Physical properties of this particular rock; omitted = a standard stone */
+  props?: StoneProperties;
 }
 
+/** Physical properties of one rock in a set. */
+export interface StoneProperties {
+  mass: number; // kg
+  radius: number; // m
+  bandRadius: number; // running band radius (m)
+  frictionMul: number; // multiplier on ice friction (running band condition)
+  curlMul: number; // multiplier on curl
+}
+
+/** A stone-stone impact resolved during a physics step. */
+export interface StoneContact {
+  /** Index of the first stone in the stones array */
+  a: number;
+  /** Index of the second stone in the stones array */
+  b: number;
+  /** Normal impulse magnitude (N·s) */
+  impulse: number;
+  /** Contact point on the ice */
+  point: Vec2;
+  /** How long the stones stayed in contact (s); 0 for an instantaneous impulse */
+  duration: number;
+}
+
+/** Why a stone was taken out of play. */
+export type RemovalReason =
+  | "SIDE_BOARD" // touched the side board line
+  | "END_BOARD" // struck an end board while board contact puts stones out of play
+  | "BACK_LINE" // came to rest or travelled fully past the back line
+  | "HOG_LINE" // delivered stone did not reach the far hog line
+  | "FREE_GUARD_ZONE" // delivered stone removed under the free guard zone rule
+  | "NO_TICK"; // delivered stone removed under the no-tick rule
+
+/** A stone taken out of play during a physics step. */
+export interface StoneRemoval {
+  /** Index of the stone in the stones array */
+  index: number;
+  reason: RemovalReason;
+}
+
+/** Which board a stone struck: a side board or the end board (bumper) behind a hack. */
+export type Board = "side" | "end";
+
+/** A stone bouncing off a board during a physics step. */
+export interface BoardHit {
+  /** Index of the stone in the stones array */
+  index: number;
+  board: Board;
+  /** Speed (m/s) into the board */
+  speed: number;
+}
+
+/** Where the stones were at the start of a physics step and how long it was. */
+export interface StepMotion {
+  start: Vec2[];
+  dt: number;
+}
+
+/** Everything that happened to the stones during one physics step. */
+export interface StepEvents {
+  contacts: StoneContact[];
+  removals: StoneRemoval[];
+  boardHits: BoardHit[];
+}
+
+/** Lines a stone can cross on its way down the sheet. */
+export type SheetLine = "NEAR_HOG" | "TEE" | "FAR_HOG" | "BACK";
+
+interface DeliveryEventBase {
+  /** Seconds since the stone was delivered */
+  time: number;
+  /** Physics step index since the stone was delivered */
+  step: number;
+}
+
+/** Stones are identified by their delivery index. */
+export type DeliveryEvent =
+  | (DeliveryEventBase & { type: "collision"; a: number; b: number; impulse: number; point: Vec2; duration: number })
+  | (DeliveryEventBase & { type: "line-cross"; stone: number; line: SheetLine })
+  | (DeliveryEventBase & { type: "stop"; stone: number; pos: Vec2 })
+  | (DeliveryEventBase & { type: "board"; stone: number; board: Board; speed: number; pos: Vec2 })
+  | (DeliveryEventBase & { type: "removal"; stone: number; reason: RemovalReason; pos: Vec2 });
+
 export interface IceParams {
   mu0: number; // base friction coefficient for mu(v) = mu0 * v^(-0.5)
   muMax: number; // clamped max mu at low speed
@@ -25,6 +109,37 @@ export interface IceParams {
   sweepCurlFactor: number; // multiplier on curl when sweeping (< 1 = straighter)
 }
 
+/** Ice conditions at one point of the sheet, relative to an ice model's global parameters. */
+export interface LocalIce {
+  friction: number; // multiplier on the friction coefficient
+  curl: number; // multiplier on the curl (lateral) acceleration
+  fallX: number; // lateral slope ("fall") acceleration toward +X (m/s²)
+}
+
+/** Local ice conditions at a sheet position. */
+export type LocalIceSampler = (x: number, z: number) => LocalIce;
+
+export interface RuleOptions {
+  /** Free guard zone: number of opening deliveries protected (0 = off, usually 4 or 5) */
+  freeGuardZoneRocks: number;
+  /**
+   * No-tick rule: centre-line guards may not be moved off the centre line during the free guard
+   * zone deliveries, so it needs freeGuardZoneRocks > 0
+   */
+  noTick: boolean;
+  /** Mixed doubles variant: every stone, not only opposing guards, is protected during the free guard zone deliveries */
+  freeGuardZoneAllStones: boolean;
+  /**
+   * With rebounding boards, a stone that touches a board is out of play, and one that passes the
+   * back line is out at once. Off: board contact is play on, and only stones at rest past the back
+   * line are out. Without rebounding boards, side-board contact always removes the stone.
+   */
+  boardContactOutOfPlay: boolean;
+}
+
+/** Side of the sheet (from the thrower's view) used for a mixed doubles power play. */
+export type PowerPlaySide = "LEFT" | "RIGHT";
+
 export interface ShotRelease {
   x: number; // release X position (usually near 0, centre line)
   z: number; // release Z position (hack area)
@@ -33,8 +148,64 @@ export interface ShotRelease {
   omega: number; // initial spin (rad/s)
 }
 
+/** A stone that counts toward the end's score, ranked by distance to the tee. */
+export interface CountingStone {
+  deliveryIndex: number;
+  team: Team;
+  /** Distance from the stone centre to the tee (m) */
+  dist: number;
+}
+
+export interface EndScore {
+  red: number;
+  yellow: number;
+  /** Team that scored, or null for a blank end */
+  winner: Team | null;
+  /** Counting stones, closest first */
+  counting: CountingStone[];
+}
+
+/** Where the sweepers work: right in front of the stone, or broadly across its path. */
+export type SweepPlacement = "FRONT" | "BROAD";
+
 export interface SweepAction {
-  active: boolean;
+  intensity: number; // brush effort, 0 (not sweeping) – 1 (flat out)
+  sweepers: number; // number of sweepers on the stone (0–3)
+  placement: SweepPlacement;
+}
+
+/** A point in a delivery: seconds since release, metres travelled, or a line the delivered stone crosses. */
+export type SweepMark = { time: number } | { distance: number } | { line: SheetLine };
+
+/** Sweep the delivered stone from one mark until another (or until it stops). */
+export interface SweepSegment {
+  from: SweepMark;
+  to?: SweepMark;
+  intensity?: number; // default 1
+  sweepers?: number;
+  placement?: SweepPlacement;
+}
+
+/** What a sweep policy sees of the delivery so far. */
+export interface SweepContext {
+  stone: StoneState; // copy of the delivered stone
+  time: number; // seconds since release
+  distance: number; // metres travelled since release
+  crossed: SheetLine[]; // lines crossed so far, in order
+}
+
+/** Sweeping decision callback; return null (or nothing) to keep sweeping as it is. */
+export type SweepPolicy = (ctx: SweepContext) => Partial<SweepAction> | null | void;
+
+/**
+ * Sweeping schedule for one delivery. Segments sweep while active and not at
+ * all in between; a policy is called every `policyInterval` steps and its
+ * latest decision overrides the segments.
+ */
+export interface SweepPlan {
+  segments?: SweepSegment[];
+  policy?: SweepPolicy;
+  policyInterval?: number; // physics steps between policy calls (default 12)
 }
 
 export const DEFAULT_ICE_PARAMS: IceParams = {
@@ -46,10 +217,56 @@ export const DEFAULT_ICE_PARAMS: IceParams = {
   sweepCurlFactor: 0.45,
 };
 
+export const UNIFORM_ICE: LocalIce = {
+  friction: 1,
+  curl: 1,
+  fallX: 0,
+};
+
+export const DEFAULT_RULE_OPTIONS: RuleOptions = {
+  freeGuardZoneRocks: 0,
+  noTick: false,
+  freeGuardZoneAllStones: false,
+  boardContactOutOfPlay: true,
+};
+
 export const PHYSICS_DT = 1 / 120;
 export const GRAVITY = 9.81;
 export const SETTLE_VEL_THRESHOLD = 0.003;
 export const SETTLE_OMEGA_THRESHOLD = 0.01;
 
+/**
+ * How stone motion is integrated: semi-implicit Euler, classic RK4, or RK4 with
+ * step-doubling error control that also lands exactly on stops and first contacts.
+ */
+export type IntegratorKind = "euler" | "rk4" | "adaptive";
+
+export interface IntegratorSettings {
+  kind: IntegratorKind;
+  dt: number; // fixed physics step (s); the adaptive integrator subdivides it
+  tolerance: number; // adaptive: max position error per sub-step (m)
+  fastPath: boolean; // runUntilSettled: cover a lone moving stone's clear stretches in single long steps
+}
+
+export const DEFAULT_INTEGRATOR_SETTINGS: IntegratorSettings = {
+  kind: "euler",
+  dt: PHYSICS_DT,
+  tolerance: 1e-5,
+  fastPath: false,
+};
+
+/** Physical side and end boards around the sheet. */
+export interface BoardSettings {
+  rebound: boolean; // stones bounce off the boards; off = a stone reaching the side-board line is removed
+  sideRestitution: number; // fraction of the speed into a side board kept on the rebound
+  endRestitution: number; // fraction of the speed into an end-board bumper kept on the rebound
+}
+
+export const DEFAULT_BOARD_SETTINGS: BoardSettings = {
+  rebound: false,
+  sideRestitution: 0.5,
+  endRestitution: 0.2, // foam bumpers soak up most of the speed
+};
+
 export const COLLISION_RESTITUTION = 0.85;
 export const COLLISION_TANGENTIAL_FRICTION = 0.3;
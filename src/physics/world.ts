@@ -1,18 +1,116 @@
-import type { StoneState, IceParams, ShotRelease, Team } from "./types";
-import { DEFAULT_ICE_PARAMS, PHYSICS_DT } from "./types";
-import { stepPhysics } from "./integrator";
-import { applyRules, checkHogLineViolation, scoreEnd } from "./rules";
+import type {
+  StoneState,
+  IceParams,
+  RuleOptions,
+  ShotRelease,
+  Team,
+  Vec2,
+  EndScore,
+  DeliveryEvent,
+  RemovalReason,
+  LocalIce,
+  SheetLine,
+  SweepPlan,
+  IntegratorSettings,
+  LocalIceSampler,
+  BoardSettings,
+  Board,
+} from "./types";
+import {
+  DEFAULT_RULE_OPTIONS,
+  DEFAULT_INTEGRATOR_SETTINGS,
+  DEFAULT_BOARD_SETTINGS,
+  UNIFORM_ICE,
+  SETTLE_VEL_THRESHOLD,
+} from "./types";
+import { stepPhysics, stoneForces } from "./integrator";
+import { soleMovingStone, fastPathSteps, MIN_FAST_STEPS } from "./fast-path";
+import type { IceModel } from "./ice-model";
+import { EmpiricalIceModel, isIceModel } from "./ice-model";
+import type { CollisionModel } from "./collision-model";
+import { ImpulseCollisionModel } from "./collision-model";
+import type { IceMap } from "./ice-map";
+import type { IceWear } from "./ice-wear";
+import type { PebbleNoise } from "./pebble-noise";
+import type { IceConditions } from "./ice-environment";
+import { SweepState } from "./sweeping";
+import { SweepPlanRunner } from "./sweep-plan";
+import type { StoneSet } from "./stone-set";
+import {
+  applyRules,
+  checkHogLineViolation,
+  checkFreeGuardZoneViolation,
+  checkNoTickViolation,
+  linesCrossed,
+  scoreEnd,
+} from "./rules";
 import { HACK_Z } from "../utils/constants";
 
 export type TargetEnd = -1 | 1;
 
+/** Deep copy of a stone state. */
+export function cloneStone(s: StoneState): StoneState {
+  return {
+    pos: { x: s.pos.x, z: s.pos.z },
+    vel: { x: s.vel.x, z: s.vel.z },
+    omega: s.omega,
+    angle: s.angle,
+    team: s.team,
+    inPlay: s.inPlay,
+    deliveryIndex: s.deliveryIndex,
+    ...(s.props ? { props: { ...s.props } } : {}),
+  };
+}
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+function stoneSpeed(s: StoneState): number {
+  return Math.sqrt(s.vel.x * s.vel.x + s.vel.z * s.vel.z);
+}
+
 export class PhysicsWorld {
   stones: StoneState[] = [];
-  ice: IceParams;
-  sweeping = false;
+  iceModel: IceModel;
+  /** Spatially varying ice; null = uniform sheet */
+  iceMap: IceMap | null = null;
+  /** Pebble wear accumulated by moving stones; null = wear not modelled */
+  iceWear: IceWear | null = null;
+  /** Seeded random pebble, fresh for each delivery; null = smooth ice */
+  pebbleNoise: PebbleNoise | null = null;
+  /** Rink environment scaling friction and curl sheet-wide; null = reference conditions */
+  iceConditions: IceConditions | null = null;
+  /** Rocks each team throws, in delivery order; null = identical standard stones */
+  stoneSet: StoneSet | null = null;
+  rules: RuleOptions;
+  sweep = new SweepState();
+  /** Integration scheme and physics step length */
+  integrator: IntegratorSettings = { ...DEFAULT_INTEGRATOR_SETTINGS };
+  /** How stones exchange momentum and spin when they strike */
+  collisionModel: CollisionModel = new ImpulseCollisionModel();
+  /** Whether stones bounce off the side and end boards, and how hard */
+  boards: BoardSettings = { ...DEFAULT_BOARD_SETTINGS };
   targetEnd: TargetEnd = -1; // -1 = playing toward negative-Z house
   deliveredStoneIndex = -1;
   accumulator = 0;
+  /** Stones as they were before the current delivery, for restoring after a rule violation */
+  preDeliveryStones: StoneState[] | null = null;
+  /** True once the delivered stone has struck a stone already in play */
+  deliveredStruckStone = false;
+  /** Events of the current (or most recent) delivery, in step order */
+  events: DeliveryEvent[] = [];
+  /** Physics steps taken since the current delivery was released */
+  deliveryStep = 0;
+  /** Distance (m) the delivered stone has travelled since release */
+  deliveryDistance = 0;
+  /** Lines the delivered stone has crossed since release, in order */
+  deliveryLines: SheetLine[] = [];
+  /** Sweep schedule driving `sweep` for the current delivery, if any */
+  private sweepPlan: SweepPlanRunner | null = null;
+  /** Stones moving at the start of a step and their z there, reused from step to step */
+  private readonly movingIndices: number[] = [];
+  private readonly movingZ: number[] = [];
+  /** Samples localIce, for the integrator */
+  private readonly sampleLocalIce = (x: number, z: number): LocalIce => this.localIce(x, z);
 
   /** True while any stone has non-zero velocity */
   get isSimulating(): boolean {
@@ -24,8 +122,35 @@ export class PhysicsWorld {
     return false;
   }
 
-  constructor(ice?: Partial<IceParams>) {
-    this.ice = { ...DEFAULT_ICE_PARAMS, ...ice };
+  /**
+   * `ice` is either a ready-made ice model or parameters for the default empirical model.
+   */
+  constructor(ice?: IceModel | Partial<IceParams>, rules?: Partial<RuleOptions>) {
+    this.iceModel = isIceModel(ice) ? ice : new EmpiricalIceModel(ice);
+    this.rules = { ...DEFAULT_RULE_OPTIONS, ...rules };
+    if (this.rules.noTick && !(this.rules.freeGuardZoneRocks > 0)) {
+      throw new Error("The no-tick rule covers the free guard zone deliveries: set freeGuardZoneRocks too");
+    }
+  }
+
+  /** True when the ice is not the model's uniform reference ice. */
+  get hasLocalIce(): boolean {
+    return !!(this.iceMap || this.iceWear || this.pebbleNoise || this.iceConditions);
+  }
+
+  /** Ice conditions at a sheet position, combining the environment, ice map, pebble wear and pebble noise. */
+  localIce(x: number, z: number): LocalIce {
+    let local = this.iceConditions ? this.iceConditions.factors : UNIFORM_ICE;
+    for (const layer of [this.iceMap, this.iceWear, this.pebbleNoise]) {
+      if (!layer) continue;
+      const l = layer.sample(x, z);
+      local = {
+        friction: local.friction * l.friction,
+        curl: local.curl * l.curl,
+        fallX: local.fallX + l.fallX,
+      };
+    }
+    return local;
   }
 
   /** Remove all stones and reset for a new end. */
@@ -33,6 +158,14 @@ export class PhysicsWorld {
     this.stones = [];
     this.deliveredStoneIndex = -1;
     this.accumulator = 0;
+    this.preDeliveryStones = null;
+    this.deliveredStruckStone = false;
+    this.events = [];
+    this.deliveryStep = 0;
+    this.deliveryDistance = 0;
+    this.deliveryLines = [];
+    this.sweepPlan = null;
+    this.sweep.heat = 0;
   }
 
   /**
@@ -56,9 +189,159 @@ export class PhysicsWorld {
       inPlay: true,
       deliveryIndex,
     };
+    this.assignRock(stone);
 
+    this.preDeliveryStones = this.stones.map(cloneStone);
     this.stones.push(stone);
     this.deliveredStoneIndex = this.stones.length - 1;
+    this.deliveredStruckStone = false;
+    this.events = [];
+    this.deliveryStep = 0;
+    this.deliveryDistance = 0;
+    this.deliveryLines = [];
+    this.sweepPlan = null;
+    this.pebbleNoise?.nextDelivery();
+    // Fresh, unswept ice ahead of the new stone
+    this.sweep.heat = 0;
+  }
+
+  /**
+   * Let a sweep plan drive the sweeping for the rest of the current delivery.
+   * It replaces the sweep intensity (and, where given, sweepers and placement) every step.
+   */
+  followSweepPlan(plan: SweepPlan): void {
+    this.sweepPlan = new SweepPlanRunner(plan);
+  }
+
+  /**
+   * Place a stationary stone on the sheet (e.g. mixed doubles positioned stones).
+   */
+  placeStone(team: Team, pos: Vec2, deliveryIndex: number): void {
+    const stone: StoneState = {
+      pos: { x: pos.x, z: pos.z },
+      vel: { x: 0, z: 0 },
+      omega: 0,
+      angle: 0,
+      team,
+      inPlay: true,
+      deliveryIndex,
+    };
+    this.assignRock(stone);
+    this.stones.push(stone);
+  }
+
+  /** Give a new stone the properties of its team's next rock from the stone set. */
+  private assignRock(stone: StoneState): void {
+    if (!this.stoneSet) return;
+    const thrown = this.stones.filter((s) => s.team === stone.team).length;
+    stone.props = this.stoneSet.propsFor(stone.team, thrown);
+  }
+
+  /** Advance one fixed physics step, apply the out-of-play rules and log what happened. */
+  private step(): void {
+    const moving = this.movingIndices;
+    const movingZ = this.movingZ;
+    let movers = 0;
+    for (let i = 0; i < this.stones.length; i++) {
+      const s = this.stones[i];
+      if (!s.inPlay || stoneSpeed(s) <= SETTLE_VEL_THRESHOLD) continue;
+      moving[movers] = i;
+      movingZ[movers] = s.pos.z;
+      movers++;
+    }
+    const delivered = this.getDeliveredStone();
+    const prevX = delivered ? delivered.pos.x : 0;
+    const prevZ = delivered ? delivered.pos.z : 0;
+
+    if (this.sweepPlan && delivered) {
+      const progress = {
+        time: this.deliveryStep * this.integrator.dt,
+        distance: this.deliveryDistance,
+        crossed: this.deliveryLines,
+      };
+      this.sweep.set(
+        this.sweepPlan.next(this.deliveryStep, progress, () => ({
+          ...progress,
+          stone: cloneStone(delivered),
+          crossed: [...this.deliveryLines],
+        }))
+      );
+    }
+
+    const localIce = this.hasLocalIce ? this.sampleLocalIce : null;
+    this.sweep.update(this.integrator.dt);
+    const { contacts, removals, boardHits } = stepPhysics(
+      this.stones,
+      this.iceModel,
+      this.sweep.effect,
+      localIce,
+      this.integrator,
+      this.collisionModel,
+      this.boards
+    );
+    const boardsInPlay = this.boards.rebound && !this.rules.boardContactOutOfPlay;
+    for (const hit of boardHits) {
+      const s = this.stones[hit.index];
+      this.logBoardHit(s, hit.board, hit.speed);
+      if (!boardsInPlay && s.inPlay) {
+        s.inPlay = false;
+        removals.push({ index: hit.index, reason: hit.board === "side" ? "SIDE_BOARD" : "END_BOARD" });
+      }
+    }
+    removals.push(...applyRules(this.stones, this.deliveredStoneIndex, this.targetEnd, boardsInPlay));
+    this.deliveryStep++;
+    if (delivered) this.deliveryDistance += Math.hypot(delivered.pos.x - prevX, delivered.pos.z - prevZ);
+
+    for (const c of contacts) {
+      if (c.a === this.deliveredStoneIndex || c.b === this.deliveredStoneIndex) {
+        this.deliveredStruckStone = true;
+      }
+      this.logEvent({
+        type: "collision",
+        a: this.stones[c.a].deliveryIndex,
+        b: this.stones[c.b].deliveryIndex,
+        impulse: c.impulse,
+        point: c.point,
+        duration: c.duration,
+      });
+    }
+
+    for (let k = 0; k < movers; k++) {
+      const s = this.stones[moving[k]];
+      if (s.inPlay) this.iceWear?.record(s.pos.x, s.pos.z, this.integrator.dt, this.sweep.effect);
+      for (const line of linesCrossed(movingZ[k], s.pos.z, this.targetEnd)) {
+        this.logEvent({ type: "line-cross", stone: s.deliveryIndex, line });
+        if (s === delivered) this.deliveryLines.push(line);
+      }
+      if (s.inPlay && stoneSpeed(s) <= SETTLE_VEL_THRESHOLD) {
+        this.logEvent({ type: "stop", stone: s.deliveryIndex, pos: { x: s.pos.x, z: s.pos.z } });
+      }
+    }
+
+    for (const r of removals) {
+      this.logRemoval(this.stones[r.index], r.reason);
+    }
+  }
+
+  private logEvent(event: DistributiveOmit<DeliveryEvent, "time" | "step">): void {
+    this.events.push({
+      ...event,
+      time: this.deliveryStep * this.integrator.dt,
+      step: this.deliveryStep,
+    } as DeliveryEvent);
+  }
+
+  private logBoardHit(stone: StoneState, board: Board, speed: number): void {
+    this.logEvent({ type: "board", stone: stone.deliveryIndex, board, speed, pos: { x: stone.pos.x, z: stone.pos.z } });
+  }
+
+  private logRemoval(stone: StoneState, reason: RemovalReason): void {
+    this.logEvent({
+      type: "removal",
+      stone: stone.deliveryIndex,
+      reason,
+      pos: { x: stone.pos.x, z: stone.pos.z },
+    });
   }
 
   /**
@@ -72,23 +355,13 @@ export class PhysicsWorld {
     // Cap to prevent spiral of death
     if (this.accumulator > 0.2) this.accumulator = 0.2;
 
-    while (this.accumulator >= PHYSICS_DT) {
-      stepPhysics(this.stones, this.ice, this.sweeping);
-      applyRules(this.stones, this.deliveredStoneIndex, this.targetEnd);
-      this.accumulator -= PHYSICS_DT;
+    while (this.accumulator >= this.integrator.dt) {
+      this.step();
+      this.accumulator -= this.integrator.dt;
     }
 
     if (!this.isSimulating) {
-      // Check hog line violation on the delivered stone
-      if (this.deliveredStoneIndex >= 0) {
-        const delivered = this.stones[this.deliveredStoneIndex];
-        if (delivered && delivered.inPlay) {
-          if (checkHogLineViolation(delivered, this.targetEnd)) {
-            delivered.inPlay = false;
-          }
-        }
-      }
-      this.deliveredStoneIndex = -1;
+      this.settleDelivery();
       return false;
     }
 
@@ -96,7 +369,7 @@ export class PhysicsWorld {
   }
 
   /** Score the current end. */
-  score(): { red: number; yellow: number; winner: Team | null } {
+  score(): EndScore {
     return scoreEnd(this.stones, this.targetEnd);
   }
 
@@ -112,23 +385,171 @@ export class PhysicsWorld {
    * Returns the number of physics steps taken.
    */
   runUntilSettled(maxSteps = 100_000): number {
-    for (let i = 0; i < maxSteps; i++) {
-      stepPhysics(this.stones, this.ice, this.sweeping);
-      applyRules(this.stones, this.deliveredStoneIndex, this.targetEnd);
+    let steps = 0;
+    while (steps < maxSteps) {
+      const fast = this.integrator.fastPath ? this.fastStep(maxSteps - steps) : 0;
+      if (fast > 0) {
+        steps += fast;
+        continue;
+      }
+      this.step();
+      steps++;
       if (!this.isSimulating) {
-        // Check hog line violation on the delivered stone
-        if (this.deliveredStoneIndex >= 0) {
-          const delivered = this.stones[this.deliveredStoneIndex];
-          if (delivered && delivered.inPlay) {
-            if (checkHogLineViolation(delivered, this.targetEnd)) {
-              delivered.inPlay = false;
-            }
-          }
-        }
-        this.deliveredStoneIndex = -1;
-        return i + 1;
+        this.settleDelivery();
+        return steps;
       }
     }
     return maxSteps;
   }
+
+  /**
+   * Cover a stretch where a single moving stone cannot reach anything (see
+   * fastPathSteps) in one long step, standing in for up to `maxSteps` fixed
+   * steps. Returns the number of steps covered, or 0 if the fixed steps must be taken.
+   */
+  private fastStep(maxSteps: number): number {
+    // Sweep schedules and heat still settling vary from step to step
+    if (this.sweepPlan || Math.abs(this.sweep.heat - this.sweep.drive) > 1e-4) return 0;
+    const index = soleMovingStone(this.stones);
+    if (index < 0) return 0;
+
+    const s = this.stones[index];
+    const dt = this.integrator.dt;
+    const localIce = this.hasLocalIce ? this.sampleLocalIce : null;
+    const effect = this.sweep.effect;
+    let steps = Math.min(
+      maxSteps,
+      fastPathSteps(
+        this.stones,
+        index,
+        this.targetEnd,
+        stoneForces(s, this.iceModel, effect, localIce),
+        dt,
+        this.iceMap?.maxFall ?? 0
+      )
+    );
+    if (steps === 0) return 0;
+
+    const before = cloneStone(s);
+    const stretch = this.fastStretch(before, steps, effect, localIce);
+    if (!stretch) return 0;
+    Object.assign(s, stretch.stone);
+    steps = stretch.steps;
+
+    this.sweep.update(steps * dt);
+    this.deliveryStep += steps;
+    const travelled = Math.hypot(s.pos.x - before.pos.x, s.pos.z - before.pos.z);
+    if (index === this.deliveredStoneIndex) this.deliveryDistance += travelled;
+    for (let k = 1; k <= steps; k++) {
+      const t = k / steps;
+      this.iceWear?.record(
+        before.pos.x + (s.pos.x - before.pos.x) * t,
+        before.pos.z + (s.pos.z - before.pos.z) * t,
+        dt,
+        effect
+      );
+    }
+    return steps;
+  }
+
+  /**
+   * Advance a copy of `stone` by `steps` fixed steps' worth in one long step,
+   * checked against two half-length steps; the stretch is halved until they
+   * agree within the integrator tolerance. Null if no stretch long enough
+   * passes, or the stone would stop within it.
+   */
+  private fastStretch(
+    stone: StoneState,
+    steps: number,
+    effect: number,
+    localIce: LocalIceSampler | null
+  ): { stone: StoneState; steps: number } | null {
+    const kind = this.integrator.kind === "adaptive" ? "adaptive" : "rk4";
+    const advance = (s: StoneState, n: number) =>
+      stepPhysics([s], this.iceModel, effect, localIce, { ...this.integrator, kind, dt: n * this.integrator.dt });
+
+    for (let n = steps; n >= MIN_FAST_STEPS; n = Math.floor(n / 2)) {
+      const full = cloneStone(stone);
+      advance(full, n);
+      const half = cloneStone(stone);
+      advance(half, Math.floor(n / 2));
+      advance(half, n - Math.floor(n / 2));
+      if (stoneSpeed(half) <= SETTLE_VEL_THRESHOLD) return null;
+      // Velocity differences count by the distance they open up over the stretch
+      const span = n * this.integrator.dt;
+      const err = Math.max(
+        Math.hypot(full.pos.x - half.pos.x, full.pos.z - half.pos.z),
+        Math.hypot(full.vel.x - half.vel.x, full.vel.z - half.vel.z) * span
+      );
+      if (err <= this.integrator.tolerance) {
+        return { stone: half, steps: n };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Apply the delivery rules once all stones have come to rest:
+   * hog-line violation, the free guard zone rule and the no-tick rule.
+   */
+  private settleDelivery(): void {
+    const delivered = this.getDeliveredStone();
+
+    if (delivered) {
+      const guardViolation = this.guardRuleViolation(delivered);
+      if (guardViolation) {
+        this.restorePreDelivery(delivered);
+        this.logRemoval(delivered, guardViolation);
+      } else if (
+        delivered.inPlay &&
+        checkHogLineViolation(delivered, this.targetEnd, this.deliveredStruckStone)
+      ) {
+        delivered.inPlay = false;
+        this.logRemoval(delivered, "HOG_LINE");
+      }
+    }
+
+    this.deliveredStoneIndex = -1;
+    this.preDeliveryStones = null;
+    this.deliveredStruckStone = false;
+    if (this.sweepPlan) {
+      this.sweepPlan = null;
+      this.sweep.set({ intensity: 0 });
+    }
+  }
+
+  /** The guard rule the delivery broke (free guard zone or no-tick), if any. */
+  private guardRuleViolation(delivered: StoneState): RemovalReason | null {
+    const before = this.preDeliveryStones;
+    const rockCount = this.rules.freeGuardZoneRocks;
+    if (!before || rockCount <= 0) return null;
+
+    if (
+      checkFreeGuardZoneViolation(
+        before,
+        this.stones,
+        delivered,
+        this.targetEnd,
+        rockCount,
+        this.rules.freeGuardZoneAllStones
+      )
+    ) {
+      return "FREE_GUARD_ZONE";
+    }
+    if (this.rules.noTick && checkNoTickViolation(before, this.stones, delivered, this.targetEnd, rockCount)) {
+      return "NO_TICK";
+    }
+    return null;
+  }
+
+  /** Put every stone back where it was before the delivery and remove the delivered stone. */
+  private restorePreDelivery(delivered: StoneState): void {
+    if (!this.preDeliveryStones) return;
+    this.stones = this.preDeliveryStones.map(cloneStone);
+    delivered.vel.x = 0;
+    delivered.vel.z = 0;
+    delivered.omega = 0;
+    delivered.inPlay = false;
+    this.stones.push(delivered);
+  }
 }
@@ -1,23 +1,28 @@
 import * as THREE from "three";
-import { SHEET_LENGTH, SHEET_WIDTH, COLORS } from "../utils/constants";
+import {
+  SHEET_WIDTH,
+  COLORS,
+  BOARD_HEIGHT,
+  BOARD_THICKNESS,
+  BUMPER_THICKNESS,
+  BUMPER_HEIGHT,
+  SIDE_BOARD_X,
+  END_BOARD_Z,
+} from "../utils/constants";
 
 /**
  * Build the arena environment around the ice sheet:
  * - Side boards running along the sheet
- * - End boards behind each hack
+ * - End boards behind each hack, faced with foam bumpers
  * - A dark floor underneath / around the sheet
  * - Subtle surrounding walls to frame the scene
+ * Board faces match the ones stones rebound from in the physics.
  */
 export function createArena(): THREE.Group {
   const group = new THREE.Group();
   group.name = "arena";
 
-  const boardHeight = 0.25;
-  const boardThickness = 0.08;
-  const margin = 0.5; // extra length past the sheet ends
-
-  const totalLength = SHEET_LENGTH + margin * 2;
-  const halfWidth = SHEET_WIDTH / 2;
+  const totalLength = (END_BOARD_Z + BOARD_THICKNESS) * 2;
 
   const boardMat = new THREE.MeshStandardMaterial({
     color: COLORS.boardBrown,
@@ -27,15 +32,15 @@ export function createArena(): THREE.Group {
 
   // Side boards
   const sideBoardGeo = new THREE.BoxGeometry(
-    boardThickness,
-    boardHeight,
+    BOARD_THICKNESS,
+    BOARD_HEIGHT,
     totalLength
   );
   for (const side of [-1, 1]) {
     const board = new THREE.Mesh(sideBoardGeo, boardMat);
     board.position.set(
-      side * (halfWidth + boardThickness / 2),
-      boardHeight / 2,
+      side * (SIDE_BOARD_X + BOARD_THICKNESS / 2),
+      BOARD_HEIGHT / 2,
       0
     );
     board.castShadow = true;
@@ -45,22 +50,41 @@ export function createArena(): THREE.Group {
 
   // End boards
   const endBoardGeo = new THREE.BoxGeometry(
-    SHEET_WIDTH + boardThickness * 2,
-    boardHeight,
-    boardThickness
+    SHEET_WIDTH + BOARD_THICKNESS * 2,
+    BOARD_HEIGHT,
+    BOARD_THICKNESS
   );
   for (const end of [-1, 1]) {
     const board = new THREE.Mesh(endBoardGeo, boardMat);
     board.position.set(
       0,
-      boardHeight / 2,
-      end * (SHEET_LENGTH / 2 + margin / 2)
+      BOARD_HEIGHT / 2,
+      end * (END_BOARD_Z + BOARD_THICKNESS / 2)
     );
     board.castShadow = true;
     board.receiveShadow = true;
     group.add(board);
   }
 
+  // Foam bumpers along the inside of the end boards
+  const bumperMat = new THREE.MeshStandardMaterial({
+    color: COLORS.bumper,
+    roughness: 0.95,
+    metalness: 0.0,
+  });
+  const bumperGeo = new THREE.BoxGeometry(SHEET_WIDTH, BUMPER_HEIGHT, BUMPER_THICKNESS);
+  for (const end of [-1, 1]) {
+    const bumper = new THREE.Mesh(bumperGeo, bumperMat);
+    bumper.position.set(
+      0,
+      BUMPER_HEIGHT / 2,
+      end * (END_BOARD_Z - BUMPER_THICKNESS / 2)
+    );
+    bumper.castShadow = true;
+    bumper.receiveShadow = true;
+    group.add(bumper);
+  }
+
   // Dark arena floor surrounding the sheet
   const floorSize = 60;
   const floorGeo = new THREE.PlaneGeometry(floorSize, floorSize);
@@ -129,6 +129,12 @@ export class StoneManager {
       activeIndices.add(s.deliveryIndex);
 
       let mesh = this.meshes.get(s.deliveryIndex);
+      // Same index may belong to the other team in a later end
+      if (mesh && mesh.name !== `stone_${s.team}`) {
+        this.disposeMesh(mesh);
+        this.meshes.delete(s.deliveryIndex);
+        mesh = undefined;
+      }
       if (!mesh) {
         mesh = createStoneMesh(s.team);
         this.meshes.set(s.deliveryIndex, mesh);
@@ -139,6 +145,9 @@ export class StoneManager {
         mesh.visible = true;
         mesh.position.set(s.pos.x, 0, s.pos.z);
         mesh.rotation.y = -s.angle * 9;
+        // Rocks from a stone set may be a little larger or smaller than standard
+        const scale = s.props ? s.props.radius / STONE_RADIUS : 1;
+        mesh.scale.set(scale, 1, scale);
       } else {
         mesh.visible = false;
       }
@@ -155,18 +164,22 @@ export class StoneManager {
   /** Remove all meshes (for game reset). */
   clear(): void {
     for (const [, mesh] of this.meshes) {
-      this.parentGroup.remove(mesh);
-      mesh.traverse((child) => {
-        if (child instanceof THREE.Mesh) {
-          child.geometry.dispose();
-          if (Array.isArray(child.material)) {
-            child.material.forEach((m) => m.dispose());
-          } else {
-            child.material.dispose();
-          }
-        }
-      });
+      this.disposeMesh(mesh);
     }
     this.meshes.clear();
   }
+
+  private disposeMesh(mesh: THREE.Group): void {
+    this.parentGroup.remove(mesh);
+    mesh.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+        if (Array.isArray(child.material)) {
+          child.material.forEach((m) => m.dispose());
+        } else {
+          child.material.dispose();
+        }
+      }
+    });
+  }
 }
@@ -37,6 +37,17 @@ export const HACK_Z = TEE_Z + 12 * FT; // hack (behind tee)
 
 export const LINE_WIDTH = 0.025; // painted line width in metres (~1 inch)
 
+// ── Boards ───────────────────────────────────────────────────────────
+// Side boards stand on the sheet's side edges; end boards just past each end,
+// faced with foam bumpers. Inner faces are what stones can touch.
+export const BOARD_HEIGHT = 0.25;
+export const BOARD_THICKNESS = 0.08;
+export const BUMPER_THICKNESS = 0.05;
+export const BUMPER_HEIGHT = 0.15;
+export const SIDE_BOARD_X = SHEET_WIDTH / 2; // inner face of each side board
+export const END_BOARD_Z = SHEET_LENGTH / 2; // inner face of each end board, behind the bumper
+export const BUMPER_Z = END_BOARD_Z - BUMPER_THICKNESS; // bumper face
+
 // ── Curling stone ────────────────────────────────────────────────────
 export const STONE_RADIUS = 0.145; // ~29 cm diameter
 export const STONE_HEIGHT = 0.114; // ~11.4 cm tall (granite body)
@@ -55,5 +66,6 @@ export const COLORS = {
   ringBlue: "#2255bb",
   granite: 0x555560,
   boardBrown: 0x3a2a1a,
+  bumper: 0x1c2a44,
   arenaDark: 0x111118,
 } as const;
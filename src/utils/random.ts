@@ -0,0 +1,20 @@
+/**
+ * Small seeded PRNG (mulberry32) for reproducible randomness.
+ * Returns a function yielding uniform values in [0, 1).
+ */
+export function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal deviate from a uniform generator (Box–Muller). */
+export function gaussian(rng: () => number): number {
+  const u = 1 - rng(); // (0, 1], keeps the log finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}